@@ -1,7 +1,12 @@
+import { InstagramStrategy } from "./instagramStrategy";
+import { FeedStrategy } from "./feedStrategy";
+import { SubstackStrategy } from "./substackStrategy";
 import { MediumStrategy } from "./mediumStrategy";
+import { XStrategy } from "./xStrategy";
+import { TimeWindow } from "../utils/time-window";
 
-export type PlatformKeys = "MEDIUM" | "X" | "INSTAGRAM";
-export type ContentType = "ARTICLES";
+export type PlatformKeys = "MEDIUM" | "SUBSTACK" | "FEED" | "X" | "INSTAGRAM";
+export type ContentType = "ARTICLES" | "POSTS";
 export type SinceDate = "today" | "yesterday" | "last_week" | "last_month" | "last_year" | "all_time";
 
 export interface ContentItem {
@@ -22,12 +27,18 @@ export interface UserIntegration {
 }
 
 export interface ContentFetcherStrategy {
-  fetchContent(username: string, since: SinceDate): Promise<ContentItem[]>;
+  fetchContent(username: string, window: TimeWindow): Promise<ContentItem[]>;
 }
 
 export class ContentFetcherStrategyFactory {
   private static strategies: Map<string, ContentFetcherStrategy> =
-    new Map([["MEDIUM", new MediumStrategy()]]);
+    new Map<string, ContentFetcherStrategy>([
+      ["MEDIUM", new MediumStrategy()],
+      ["SUBSTACK", new SubstackStrategy()],
+      ["FEED", new FeedStrategy()],
+      ["X", new XStrategy()],
+      ["INSTAGRAM", new InstagramStrategy()],
+    ]);
 
   static getStrategy(platformId: string): ContentFetcherStrategy {
     const strategy = this.strategies.get(platformId.toUpperCase());
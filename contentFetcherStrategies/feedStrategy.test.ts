@@ -0,0 +1,132 @@
+import { describe, expect, it } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+
+import { FeedStrategy, isPublicAddress } from "./feedStrategy";
+import { createTimeWindow } from "../utils/time-window";
+
+const readFixture = (name: string) => readFileSync(join(__dirname, "__fixtures__", name), "utf8");
+
+describe("FeedStrategy", () => {
+  const strategy = new FeedStrategy();
+  const window = createTimeWindow("2026-10-01T00:00:00Z", "2026-10-18T00:00:00Z");
+
+  describe("parseFeed", () => {
+    it("detects RSS and resolves relative links against the feed URL", () => {
+      const items = strategy.parseFeed(readFixture("feed-rss.xml"), window, "https://blog.example.com/feed.xml");
+
+      expect(items).toEqual([
+        {
+          id: expect.stringMatching(/^[0-9a-f]{16}$/),
+          url: "https://blog.example.com/posts/scaling-ingest",
+          title: "Scaling the ingest pipeline",
+          description: "How we split the ingest workers.",
+          publishedAt: new Date("2026-10-16T09:00:00.000Z"),
+          author: "Jane Doe",
+          type: "ARTICLES",
+          platform: "FEED",
+        },
+        {
+          id: expect.stringMatching(/^[0-9a-f]{16}$/),
+          url: "https://blog.example.com/posts/release-notes",
+          title: "Release notes",
+          description: "<p>Everything that shipped.</p>",
+          publishedAt: new Date("2026-10-12T09:00:00.000Z"),
+          author: "Example Engineering",
+          type: "ARTICLES",
+          platform: "FEED",
+        },
+      ]);
+    });
+
+    it("detects Atom and prefers the alternate link", () => {
+      const items = strategy.parseFeed(readFixture("feed-atom.xml"), window, "https://jane.example.org/feed.atom");
+
+      expect(items).toEqual([
+        {
+          id: expect.stringMatching(/^[0-9a-f]{16}$/),
+          url: "https://jane.example.org/2026/10/notes-on-atom",
+          title: "Notes on Atom",
+          description: "Why the feed has two links.",
+          publishedAt: new Date("2026-10-15T12:00:00.000Z"),
+          author: "Jane Doe",
+          type: "ARTICLES",
+          platform: "FEED",
+        },
+        {
+          id: expect.stringMatching(/^[0-9a-f]{16}$/),
+          url: "https://jane.example.org/2026/10/guest-post",
+          title: "Guest post",
+          description: "<p>A post by a friend.</p>",
+          publishedAt: new Date("2026-10-10T08:00:00.000Z"),
+          author: "John Roe",
+          type: "ARTICLES",
+          platform: "FEED",
+        },
+      ]);
+    });
+
+    it("detects JSON Feed", () => {
+      const items = strategy.parseFeed(readFixture("feed-json.json"), window, "https://notes.example.net/feed.json");
+
+      expect(items).toEqual([
+        {
+          id: expect.stringMatching(/^[0-9a-f]{16}$/),
+          url: "https://notes.example.net/2026/10/17/short-note",
+          title: "",
+          description: "A short note without a title.",
+          publishedAt: new Date("2026-10-17T07:30:00.000Z"),
+          author: "Sam Poe",
+          type: "ARTICLES",
+          platform: "FEED",
+        },
+        {
+          id: expect.stringMatching(/^[0-9a-f]{16}$/),
+          url: "https://notes.example.net/2026/10/13/linked",
+          title: "A linked post",
+          description: "Worth reading.",
+          publishedAt: new Date("2026-10-13T07:30:00.000Z"),
+          author: "Guest Writer",
+          type: "ARTICLES",
+          platform: "FEED",
+        },
+      ]);
+    });
+
+    it("drops entries whose links are not http or https", () => {
+      const urls = ["feed-rss.xml", "feed-atom.xml", "feed-json.json"].flatMap((name) =>
+        strategy
+          .parseFeed(readFixture(name), window, "https://example.com/feed")
+          .map((item) => item.url),
+      );
+
+      expect(urls.every((url) => /^https?:\/\//.test(url))).toBe(true);
+    });
+
+    it("returns nothing for documents that are not feeds", () => {
+      expect(strategy.parseFeed("<html><body></body></html>", window, "https://example.com/")).toEqual([]);
+      expect(strategy.parseFeed('{"version": "1"}', window, "https://example.com/")).toEqual([]);
+    });
+  });
+
+  describe("isPublicAddress", () => {
+    it("refuses private, loopback and mapped private addresses", () => {
+      for (const address of ["10.1.2.3", "127.0.0.1", "169.254.169.254", "::1", "fd00::1", "::ffff:192.168.1.1"]) {
+        expect(isPublicAddress(address)).toBe(false);
+      }
+    });
+
+    it("accepts public addresses", () => {
+      expect(isPublicAddress("93.184.216.34")).toBe(true);
+      expect(isPublicAddress("2606:2800:220:1:248:1893:25c8:1946")).toBe(true);
+    });
+  });
+
+  describe("fetchContent", () => {
+    it("refuses private address literals and other schemes without a request", async () => {
+      for (const feedUrl of ["http://127.0.0.1/feed", "http://[::1]/feed", "file:///etc/passwd"]) {
+        expect(await strategy.fetchContent(feedUrl, window)).toEqual([]);
+      }
+    });
+  });
+});
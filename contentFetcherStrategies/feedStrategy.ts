@@ -0,0 +1,478 @@
+import { XMLParser } from "fast-xml-parser";
+import { createHash } from "crypto";
+import { lookup } from "dns";
+import { BlockList, isIP, isIPv4, LookupFunction } from "net";
+import { Agent, fetch, Response } from "undici";
+
+import { ContentFetcherStrategy, ContentItem } from "./contentStrategyFactory";
+import { isWithinWindow, TimeWindow } from "../utils/time-window";
+
+type FeedFormat = "RSS" | "ATOM" | "JSON_FEED";
+
+type TextNode = string | { "#text"?: string };
+
+interface RSSItem {
+  title?: TextNode;
+  link?: TextNode;
+  guid?: TextNode;
+  pubDate?: string;
+  "dc:date"?: string;
+  description?: TextNode;
+  "content:encoded"?: TextNode;
+  author?: TextNode;
+  "dc:creator"?: TextNode;
+}
+
+interface RSSChannel {
+  title?: TextNode;
+  item?: RSSItem | RSSItem[];
+}
+
+interface AtomLink {
+  "@_href"?: string;
+  "@_rel"?: string;
+}
+
+interface AtomEntry {
+  id?: TextNode;
+  title?: TextNode;
+  link?: AtomLink | AtomLink[];
+  published?: string;
+  updated?: string;
+  summary?: TextNode;
+  content?: TextNode;
+  author?: { name?: TextNode } | Array<{ name?: TextNode }>;
+}
+
+interface AtomFeed {
+  title?: TextNode;
+  author?: { name?: TextNode } | Array<{ name?: TextNode }>;
+  entry?: AtomEntry | AtomEntry[];
+}
+
+interface ParsedXMLFeed {
+  rss?: { channel?: RSSChannel };
+  feed?: AtomFeed;
+}
+
+interface JSONFeedAuthor {
+  name?: string;
+}
+
+interface JSONFeedItem {
+  id?: string;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  summary?: string;
+  content_text?: string;
+  content_html?: string;
+  date_published?: string;
+  date_modified?: string;
+  author?: JSONFeedAuthor;
+  authors?: JSONFeedAuthor[];
+}
+
+interface JSONFeed {
+  version: string;
+  title?: string;
+  authors?: JSONFeedAuthor[];
+  author?: JSONFeedAuthor;
+  items?: JSONFeedItem[];
+}
+
+// Feed URLs come from users and are fetched from inside the VPC, so anything
+// that does not resolve to a public address is refused.
+const NON_PUBLIC_ADDRESSES = new BlockList();
+NON_PUBLIC_ADDRESSES.addSubnet("0.0.0.0", 8, "ipv4");
+NON_PUBLIC_ADDRESSES.addSubnet("10.0.0.0", 8, "ipv4");
+NON_PUBLIC_ADDRESSES.addSubnet("100.64.0.0", 10, "ipv4");
+NON_PUBLIC_ADDRESSES.addSubnet("127.0.0.0", 8, "ipv4");
+NON_PUBLIC_ADDRESSES.addSubnet("169.254.0.0", 16, "ipv4");
+NON_PUBLIC_ADDRESSES.addSubnet("172.16.0.0", 12, "ipv4");
+NON_PUBLIC_ADDRESSES.addSubnet("192.0.0.0", 24, "ipv4");
+NON_PUBLIC_ADDRESSES.addSubnet("192.168.0.0", 16, "ipv4");
+NON_PUBLIC_ADDRESSES.addSubnet("198.18.0.0", 15, "ipv4");
+NON_PUBLIC_ADDRESSES.addSubnet("224.0.0.0", 3, "ipv4");
+NON_PUBLIC_ADDRESSES.addSubnet("::", 128, "ipv6");
+NON_PUBLIC_ADDRESSES.addSubnet("::1", 128, "ipv6");
+NON_PUBLIC_ADDRESSES.addSubnet("64:ff9b::", 96, "ipv6");
+NON_PUBLIC_ADDRESSES.addSubnet("fc00::", 7, "ipv6");
+NON_PUBLIC_ADDRESSES.addSubnet("fe80::", 10, "ipv6");
+NON_PUBLIC_ADDRESSES.addSubnet("ff00::", 8, "ipv6");
+
+export function isPublicAddress(address: string): boolean {
+  const mappedIPv4 = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)?.[1];
+
+  if (mappedIPv4) {
+    return isPublicAddress(mappedIPv4);
+  }
+
+  return !NON_PUBLIC_ADDRESSES.check(address, isIPv4(address) ? "ipv4" : "ipv6");
+}
+
+/**
+ * Resolves like `dns.lookup` but fails when any address is not public. The
+ * connection is opened to the addresses checked here, so a host cannot
+ * resolve to a public address for a check and to a private one for the
+ * request (DNS rebinding).
+ */
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, options, (error, address, family) => {
+    if (error) {
+      callback(error, address, family);
+      return;
+    }
+
+    const addresses = Array.isArray(address) ? address : [{ address, family }];
+    if (addresses.length === 0 || !addresses.every((entry) => isPublicAddress(entry.address))) {
+      callback(new Error(`${hostname} does not resolve to a public address`), address, family);
+      return;
+    }
+
+    callback(null, address, family);
+  });
+};
+
+const PUBLIC_ADDRESS_AGENT = new Agent({ connect: { lookup: lookupPublicAddress } });
+
+interface FeedEntry {
+  title: string;
+  link: string;
+  description: string;
+  publishedAt: string;
+  author: string;
+}
+
+export class FeedStrategy implements ContentFetcherStrategy {
+  private static readonly JSON_FEED_VERSION_PREFIX = "https://jsonfeed.org/version/";
+  private static readonly CONTENT_ID_LENGTH = 16;
+  private static readonly FETCH_TIMEOUT_MS = 8000;
+  private static readonly MAX_FEED_BYTES = 5 * 1024 * 1024;
+  private static readonly MAX_REDIRECTS = 5;
+
+  async fetchContent(username: string, window: TimeWindow): Promise<ContentItem[]> {
+    const feedUrl = this.parseFeedUrl(username);
+
+    if (!feedUrl) {
+      return [];
+    }
+
+    const feedText = await this.fetchFeedContent(feedUrl);
+
+    if (!feedText) {
+      return [];
+    }
+
+    return this.parseFeed(feedText, window, feedUrl);
+  }
+
+  private parseFeedUrl(username: string): string | null {
+    const candidate = URL.canParse(username)
+      ? username
+      : this.safeDecode(username);
+
+    if (!candidate || !URL.canParse(candidate)) {
+      return null;
+    }
+
+    const url = new URL(candidate);
+
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return null;
+    }
+
+    return url.toString();
+  }
+
+  private safeDecode(value: string): string | null {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return null;
+    }
+  }
+
+  private async fetchFeedContent(url: string): Promise<string | null> {
+    const controller = new AbortController();
+    const timeout = setTimeout(
+      () => controller.abort(),
+      FeedStrategy.FETCH_TIMEOUT_MS,
+    );
+
+    try {
+      let currentUrl = url;
+
+      // Redirects are followed by hand so every hop is checked like the
+      // original URL.
+      for (let redirects = 0; redirects <= FeedStrategy.MAX_REDIRECTS; redirects++) {
+        if (!this.hasPublicHost(currentUrl)) {
+          return null;
+        }
+
+        const response = await fetch(currentUrl, {
+          dispatcher: PUBLIC_ADDRESS_AGENT,
+          signal: controller.signal,
+          redirect: "manual",
+          headers: {
+            Accept:
+              "application/feed+json, application/json, application/atom+xml, application/rss+xml, application/xml;q=0.9, */*;q=0.8",
+          },
+        });
+
+        const location = response.headers.get("location");
+        if (response.status >= 300 && response.status < 400 && location) {
+          await response.body?.cancel();
+          currentUrl = this.parseFeedUrl(new URL(location, currentUrl).toString()) || "";
+
+          if (!currentUrl) {
+            return null;
+          }
+          continue;
+        }
+
+        if (!response.ok) {
+          return null;
+        }
+
+        return await this.readLimitedText(response);
+      }
+
+      return null;
+    } catch {
+      return null;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private hasPublicHost(url: string): boolean {
+    // IPv6 literals keep their brackets in `hostname`.
+    const hostname = new URL(url).hostname.replace(/^\[|\]$/g, "");
+
+    // Addresses are connected to without a lookup, so they are checked here;
+    // host names are checked by the agent when they are resolved.
+    return isIP(hostname) === 0 || isPublicAddress(hostname);
+  }
+
+  private async readLimitedText(response: Response): Promise<string | null> {
+    const declaredLength = Number(response.headers.get("content-length"));
+
+    if (declaredLength > FeedStrategy.MAX_FEED_BYTES) {
+      await response.body?.cancel();
+      return null;
+    }
+
+    if (!response.body) {
+      return "";
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let receivedBytes = 0;
+
+    while (true) {
+      const { done, value } = await reader.read();
+
+      if (done) {
+        break;
+      }
+
+      receivedBytes += value.byteLength;
+      if (receivedBytes > FeedStrategy.MAX_FEED_BYTES) {
+        await reader.cancel();
+        return null;
+      }
+      chunks.push(value);
+    }
+
+    return Buffer.concat(chunks).toString("utf8");
+  }
+
+  public parseFeed(
+    feedText: string,
+    window: TimeWindow,
+    feedUrl: string,
+  ): ContentItem[] {
+    try {
+      const entries = this.extractEntries(feedText, feedUrl);
+
+      return entries
+        .filter((entry) => entry.link !== "")
+        .filter((entry) => isWithinWindow(entry.publishedAt, window))
+        .map((entry) => this.convertToContentItem(entry));
+    } catch {
+      return [];
+    }
+  }
+
+  private extractEntries(feedText: string, feedUrl: string): FeedEntry[] {
+    const trimmed = feedText.trim();
+    const jsonFeed = this.tryParseJSONFeed(trimmed);
+
+    if (jsonFeed) {
+      return this.extractJSONFeedEntries(jsonFeed, feedUrl);
+    }
+
+    const parser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: "@_",
+    });
+    const parsed = parser.parse(trimmed) as ParsedXMLFeed;
+
+    switch (this.detectXMLFormat(parsed)) {
+      case "RSS":
+        return this.extractRSSEntries(parsed.rss!.channel!, feedUrl);
+      case "ATOM":
+        return this.extractAtomEntries(parsed.feed!, feedUrl);
+      default:
+        return [];
+    }
+  }
+
+  private detectXMLFormat(parsed: ParsedXMLFeed): FeedFormat | null {
+    if (parsed?.rss?.channel) {
+      return "RSS";
+    }
+
+    if (parsed?.feed) {
+      return "ATOM";
+    }
+
+    return null;
+  }
+
+  private tryParseJSONFeed(feedText: string): JSONFeed | null {
+    if (!feedText.startsWith("{")) {
+      return null;
+    }
+
+    try {
+      const parsed = JSON.parse(feedText) as JSONFeed;
+
+      return typeof parsed.version === "string" &&
+        parsed.version.startsWith(FeedStrategy.JSON_FEED_VERSION_PREFIX)
+        ? parsed
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private extractRSSEntries(channel: RSSChannel, feedUrl: string): FeedEntry[] {
+    const feedTitle = this.getText(channel.title);
+
+    return this.toArray(channel.item).map((item) => ({
+      title: this.getText(item.title),
+      link: this.resolveLink(
+        this.getText(item.link) || this.getText(item.guid),
+        feedUrl,
+      ),
+      description:
+        this.getText(item.description) || this.getText(item["content:encoded"]),
+      publishedAt: item.pubDate || item["dc:date"] || "",
+      author:
+        this.getText(item["dc:creator"]) ||
+        this.getText(item.author) ||
+        feedTitle,
+    }));
+  }
+
+  private extractAtomEntries(feed: AtomFeed, feedUrl: string): FeedEntry[] {
+    const feedAuthor = this.getAtomAuthor(feed.author) || this.getText(feed.title);
+
+    return this.toArray(feed.entry).map((entry) => ({
+      title: this.getText(entry.title),
+      link: this.resolveLink(
+        this.getAtomLink(entry.link) || this.getText(entry.id),
+        feedUrl,
+      ),
+      description: this.getText(entry.summary) || this.getText(entry.content),
+      publishedAt: entry.published || entry.updated || "",
+      author: this.getAtomAuthor(entry.author) || feedAuthor,
+    }));
+  }
+
+  private extractJSONFeedEntries(feed: JSONFeed, feedUrl: string): FeedEntry[] {
+    const feedAuthor =
+      feed.authors?.[0]?.name || feed.author?.name || feed.title || "";
+
+    return (feed.items || []).map((item) => ({
+      title: item.title || "",
+      link: this.resolveLink(item.url || item.external_url || "", feedUrl),
+      description:
+        item.summary || item.content_text || item.content_html || "",
+      publishedAt: item.date_published || item.date_modified || "",
+      author: item.authors?.[0]?.name || item.author?.name || feedAuthor,
+    }));
+  }
+
+  private getAtomLink(links: AtomEntry["link"]): string {
+    const candidates = this.toArray(links);
+    const alternate = candidates.find(
+      (link) => !link["@_rel"] || link["@_rel"] === "alternate",
+    );
+
+    return (alternate || candidates[0])?.["@_href"] || "";
+  }
+
+  private getAtomAuthor(authors: AtomFeed["author"]): string {
+    return this.getText(this.toArray(authors)[0]?.name);
+  }
+
+  private getText(node: TextNode | undefined): string {
+    if (node === undefined || node === null) {
+      return "";
+    }
+
+    if (typeof node === "object") {
+      return String(node["#text"] ?? "").trim();
+    }
+
+    return String(node).trim();
+  }
+
+  private toArray<T>(value: T | T[] | undefined): T[] {
+    if (!value) {
+      return [];
+    }
+
+    return Array.isArray(value) ? value : [value];
+  }
+
+  private resolveLink(link: string, feedUrl: string): string {
+    if (!link || !URL.canParse(link, feedUrl)) {
+      return "";
+    }
+
+    const url = new URL(link, feedUrl);
+
+    // Links end up in emails and the web app, so `javascript:` and other
+    // schemes drop the entry.
+    return url.protocol === "http:" || url.protocol === "https:"
+      ? url.toString()
+      : "";
+  }
+
+  private convertToContentItem(entry: FeedEntry): ContentItem {
+    return {
+      id: this.generateContentId(entry.link),
+      url: entry.link,
+      title: entry.title,
+      description: entry.description,
+      publishedAt: new Date(entry.publishedAt),
+      author: entry.author,
+      type: "ARTICLES",
+      platform: "FEED",
+    };
+  }
+
+  private generateContentId(url: string): string {
+    // Entries of one blog share a long URL prefix, so hash instead of
+    // truncating the raw URL to keep IDs distinct.
+    return createHash("sha256")
+      .update(url)
+      .digest("hex")
+      .substring(0, FeedStrategy.CONTENT_ID_LENGTH);
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+
+import { InstagramProfileResponse, InstagramStrategy } from "./instagramStrategy";
+import { createTimeWindow } from "../utils/time-window";
+
+const profileResponse = JSON.parse(
+  readFileSync(join(__dirname, "__fixtures__", "instagram-web-profile-info.json"), "utf8"),
+) as InstagramProfileResponse;
+
+describe("InstagramStrategy", () => {
+  const strategy = new InstagramStrategy();
+
+  describe("parseProfileResponse", () => {
+    it("parses timeline posts and reels", () => {
+      const posts = strategy.parseProfileResponse(profileResponse, "Jane.Doe");
+
+      expect(posts).toEqual([
+        {
+          id: "C9reelAbc12",
+          url: "https://www.instagram.com/reel/C9reelAbc12/",
+          title: "Golden hour over the Bosphorus",
+          description: "Golden hour over the Bosphorus\nShot on film",
+          publishedAt: new Date("2026-10-17T10:00:00.000Z"),
+          author: "jane.doe",
+          type: "POSTS",
+          platform: "INSTAGRAM",
+        },
+        {
+          id: "C9postXyz34",
+          url: "https://www.instagram.com/p/C9postXyz34/",
+          title: "",
+          description: "",
+          publishedAt: new Date("2026-10-14T10:00:00.000Z"),
+          author: "jane.doe",
+          type: "POSTS",
+          platform: "INSTAGRAM",
+        },
+      ]);
+    });
+
+    it("falls back to the requested username and tolerates missing data", () => {
+      expect(strategy.parseProfileResponse({}, "jane.doe")).toEqual([]);
+      expect(strategy.parseProfileResponse({ data: { user: { username: "" } } }, "jane.doe")).toEqual([]);
+    });
+  });
+
+  describe("fetchContent", () => {
+    it("refuses usernames outside the handle charset without opening a page", async () => {
+      const window = createTimeWindow("2026-01-01T00:00:00Z", "2026-12-31T00:00:00Z");
+
+      for (const username of ["//evil.com", "..", ".jane", "jane..doe", "jane/doe"]) {
+        expect(await strategy.fetchContent(username, window)).toEqual([]);
+      }
+    });
+  });
+});
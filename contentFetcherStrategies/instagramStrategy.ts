@@ -0,0 +1,110 @@
+import type { HTTPResponse } from "puppeteer-core";
+
+import { ContentFetcherStrategy, ContentItem } from "./contentStrategyFactory";
+import { isWithinWindow, TimeWindow } from "../utils/time-window";
+import { withPage } from "../utils/browser";
+
+interface InstagramTimelineNode {
+  shortcode: string;
+  taken_at_timestamp: number;
+  is_video?: boolean;
+  edge_media_to_caption?: {
+    edges: Array<{ node: { text: string } }>;
+  };
+}
+
+export interface InstagramProfileResponse {
+  data?: {
+    user?: {
+      username: string;
+      edge_owner_to_timeline_media?: {
+        edges: Array<{ node: InstagramTimelineNode }>;
+      };
+    };
+  };
+}
+
+export class InstagramStrategy implements ContentFetcherStrategy {
+  private static readonly PROFILE_URL_BASE = "https://www.instagram.com/";
+  private static readonly PROFILE_INFO_PATH = "/api/v1/users/web_profile_info/";
+  private static readonly TITLE_MAX_LENGTH = 120;
+  // Handles end up in the profile URL, so anything outside Instagram's
+  // charset (e.g. `//host` or `..`) would point the browser elsewhere.
+  private static readonly USERNAME_PATTERN = /^(?!\.)(?!.*\.\.)[A-Za-z0-9._]{1,30}(?<!\.)$/;
+
+  async fetchContent(username: string, window: TimeWindow): Promise<ContentItem[]> {
+    if (!InstagramStrategy.USERNAME_PATTERN.test(username)) {
+      return [];
+    }
+
+    return withPage(async (page) => {
+      // The profile page loads its timeline through this JSON endpoint, which
+      // is far more stable than the obfuscated grid markup. The wait starts
+      // before navigating and settles to null, so a failed `goto` cannot
+      // leave it rejecting unhandled once the page is closed.
+      const profileResponse = page
+        .waitForResponse(
+          (response: HTTPResponse) =>
+            response.url().includes(InstagramStrategy.PROFILE_INFO_PATH),
+          { timeout: 20000 },
+        )
+        .catch(() => null);
+
+      await page.goto(new URL(`${username}/`, InstagramStrategy.PROFILE_URL_BASE).toString(), {
+        waitUntil: "networkidle2",
+        timeout: 20000,
+      });
+
+      const response = await profileResponse;
+
+      if (!response) {
+        return [];
+      }
+
+      try {
+        const json = (await response.json()) as InstagramProfileResponse;
+
+        return this.parseProfileResponse(json, username).filter(
+          (post) => isWithinWindow(post.publishedAt, window),
+        );
+      } catch {
+        return [];
+      }
+    });
+  }
+
+  public parseProfileResponse(
+    json: InstagramProfileResponse,
+    username: string,
+  ): ContentItem[] {
+    const edges = json?.data?.user?.edge_owner_to_timeline_media?.edges || [];
+    const author = json?.data?.user?.username || username;
+
+    return edges
+      .map(({ node }) => node)
+      .filter((node) => Boolean(node?.shortcode))
+      .map((node): ContentItem => {
+        const caption = node.edge_media_to_caption?.edges[0]?.node.text?.trim() || "";
+        const path = node.is_video ? "reel" : "p";
+
+        return {
+          id: node.shortcode,
+          url: new URL(`${path}/${node.shortcode}/`, InstagramStrategy.PROFILE_URL_BASE).toString(),
+          title: this.buildTitle(caption),
+          description: caption,
+          publishedAt: new Date(node.taken_at_timestamp * 1000),
+          author,
+          type: "POSTS",
+          platform: "INSTAGRAM",
+        };
+      });
+  }
+
+  private buildTitle(caption: string): string {
+    const firstLine = caption.split("\n")[0].trim();
+
+    return firstLine.length > InstagramStrategy.TITLE_MAX_LENGTH
+      ? `${firstLine.substring(0, InstagramStrategy.TITLE_MAX_LENGTH - 1)}…`
+      : firstLine;
+  }
+}
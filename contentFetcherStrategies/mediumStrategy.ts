@@ -1,6 +1,8 @@
 import { XMLParser } from "fast-xml-parser";
+import { createHash } from "crypto";
 
-import { ContentFetcherStrategy, ContentItem, SinceDate } from "./contentStrategyFactory";
+import { ContentFetcherStrategy, ContentItem } from "./contentStrategyFactory";
+import { isWithinWindow, TimeWindow } from "../utils/time-window";
 
 interface MediumRSSItem {
   title: string;
@@ -23,16 +25,8 @@ export class MediumStrategy implements ContentFetcherStrategy {
   private static readonly RSS_URL_SUFFIX = "/feed";
   private static readonly CONTENT_ID_LENGTH = 16;
   private static readonly FETCH_TIMEOUT_MS = 8000;
-  private static readonly sinceDateMap = new Map<SinceDate, Date>([
-    ["today", new Date()],
-    ["yesterday", new Date(Date.now() - 24 * 60 * 60 * 1000)],
-    ["last_week", new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)],
-    ["last_month", new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)],
-    ["last_year", new Date(Date.now() - 365 * 24 * 60 * 60 * 1000)],
-  ]);
-
-  async fetchContent(username: string, since: SinceDate): Promise<ContentItem[]> {
-    const sinceDate = MediumStrategy.sinceDateMap.get(since);
+
+  async fetchContent(username: string, window: TimeWindow): Promise<ContentItem[]> {
     const rssUrl = this.buildRssUrl(username);
     const rssText = await this.fetchRssContent(rssUrl);
 
@@ -40,7 +34,7 @@ export class MediumStrategy implements ContentFetcherStrategy {
       return [];
     }
 
-    return this.parseMediumRSS(rssText, sinceDate!, username);
+    return this.parseMediumRSS(rssText, window, username);
   }
 
   private buildRssUrl(username: string): string {
@@ -76,7 +70,7 @@ export class MediumStrategy implements ContentFetcherStrategy {
 
   private parseMediumRSS(
     rssText: string,
-    sinceDate: Date,
+    window: TimeWindow,
     username: string,
   ): ContentItem[] {
     try {
@@ -86,7 +80,7 @@ export class MediumStrategy implements ContentFetcherStrategy {
       
       return items
         .filter((item) => this.getItemLink(item) !== "")
-        .filter((item) => this.isItemAfterDate(item, sinceDate))
+        .filter((item) => this.isItemWithinWindow(item, window))
         .map((item) => this.convertToContentItem(item, username)); 
     } catch {
       return [];
@@ -99,11 +93,8 @@ export class MediumStrategy implements ContentFetcherStrategy {
     return Array.isArray(items) ? items : [items].filter(Boolean);
   }
 
-  private isItemAfterDate(item: MediumRSSItem, since: Date): boolean {
-    const dateStr = item.pubDate || "";
-    const pubDate = new Date(dateStr);
-
-    return !isNaN(pubDate.getTime()) && pubDate >= since;
+  private isItemWithinWindow(item: MediumRSSItem, window: TimeWindow): boolean {
+    return isWithinWindow(item.pubDate || "", window);
   }
 
   private getItemLink(item: MediumRSSItem): string {
@@ -132,9 +123,10 @@ export class MediumStrategy implements ContentFetcherStrategy {
   }
 
   private generateContentId(url: string): string {
-    return Buffer.from(url)
-      .toString("base64")
-      .replace(/[^a-zA-Z0-9]/g, "")
+    // Posts of one author share the URL prefix, so the full URL is hashed.
+    return createHash("sha256")
+      .update(url)
+      .digest("hex")
       .substring(0, MediumStrategy.CONTENT_ID_LENGTH);
   }
 }
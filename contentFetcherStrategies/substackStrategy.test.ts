@@ -0,0 +1,66 @@
+import { describe, expect, it } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+
+import { SubstackStrategy } from "./substackStrategy";
+import { createTimeWindow } from "../utils/time-window";
+
+const feed = readFileSync(join(__dirname, "__fixtures__", "substack-feed.xml"), "utf8");
+
+describe("SubstackStrategy", () => {
+  const strategy = new SubstackStrategy();
+
+  describe("parseSubstackRSS", () => {
+    const window = createTimeWindow("2026-10-01T00:00:00Z", "2026-10-18T00:00:00Z");
+
+    it("parses the posts published within the window", () => {
+      const posts = strategy.parseSubstackRSS(feed, window, "janenotes");
+
+      expect(posts).toEqual([
+        {
+          id: expect.stringMatching(/^[0-9a-f]{16}$/),
+          url: "https://janenotes.substack.com/p/why-we-moved-off-medium",
+          title: "Why we moved off Medium",
+          description: "Notes on the migration.",
+          publishedAt: new Date("2026-10-17T10:00:00.000Z"),
+          author: "Jane Doe",
+          type: "ARTICLES",
+          platform: "SUBSTACK",
+        },
+        {
+          id: expect.stringMatching(/^[0-9a-f]{16}$/),
+          url: "https://janenotes.substack.com/p/podcast-shipping-small",
+          title: "Podcast: shipping small",
+          description: "<p>Episode notes.</p>",
+          publishedAt: new Date("2026-10-14T08:30:00.000Z"),
+          author: "janenotes",
+          type: "ARTICLES",
+          platform: "SUBSTACK",
+        },
+      ]);
+    });
+
+    it("gives posts of one publication distinct ids", () => {
+      const window = createTimeWindow("2025-01-01T00:00:00Z", "2026-12-31T00:00:00Z");
+      const ids = strategy.parseSubstackRSS(feed, window, "janenotes").map((post) => post.id);
+
+      expect(ids).toHaveLength(3);
+      expect(new Set(ids).size).toBe(3);
+    });
+
+    it("returns nothing for feeds without items or invalid XML", () => {
+      expect(strategy.parseSubstackRSS("<rss><channel></channel></rss>", window, "janenotes")).toEqual([]);
+      expect(strategy.parseSubstackRSS("not a feed", window, "janenotes")).toEqual([]);
+    });
+  });
+
+  describe("fetchContent", () => {
+    it("refuses publications that are not subdomains without a request", async () => {
+      const window = createTimeWindow("2026-01-01T00:00:00Z", "2026-12-31T00:00:00Z");
+
+      for (const publication of ["evil.com/x", "jane.notes", "../feed", ""]) {
+        expect(await strategy.fetchContent(publication, window)).toEqual([]);
+      }
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { XMLParser } from "fast-xml-parser";
+import { createHash } from "crypto";
+
+import { ContentFetcherStrategy, ContentItem } from "./contentStrategyFactory";
+import { isWithinWindow, TimeWindow } from "../utils/time-window";
+
+interface SubstackRSSItem {
+  title: string;
+  link: string;
+  guid: string;
+  pubDate: string;
+  description?: string;
+  "content:encoded"?: string;
+  "dc:creator"?: string;
+}
+
+interface SubstackRSSResponse {
+  rss: {
+    channel: {
+      item: SubstackRSSItem[];
+    };
+  };
+}
+
+export class SubstackStrategy implements ContentFetcherStrategy {
+  private static readonly RSS_URL_SUFFIX = ".substack.com/feed";
+  // Publications are subdomains; anything else would let the caller pick the host.
+  private static readonly PUBLICATION_PATTERN = /^[a-z0-9-]+$/;
+  private static readonly CONTENT_ID_LENGTH = 16;
+  private static readonly FETCH_TIMEOUT_MS = 8000;
+
+  async fetchContent(username: string, window: TimeWindow): Promise<ContentItem[]> {
+    const rssUrl = this.buildRssUrl(username);
+
+    if (!rssUrl) {
+      return [];
+    }
+
+    const rssText = await this.fetchRssContent(rssUrl);
+
+    if (!rssText) {
+      return [];
+    }
+
+    return this.parseSubstackRSS(rssText, window, username);
+  }
+
+  private buildRssUrl(publication: string): string | null {
+    const subdomain = publication.toLowerCase();
+
+    if (!SubstackStrategy.PUBLICATION_PATTERN.test(subdomain)) {
+      return null;
+    }
+
+    return new URL(
+      `https://${subdomain}${SubstackStrategy.RSS_URL_SUFFIX}`,
+    ).toString();
+  }
+
+  private async fetchRssContent(url: string): Promise<string | null> {
+    const controller = new AbortController();
+    const timeout = setTimeout(
+      () => controller.abort(),
+      SubstackStrategy.FETCH_TIMEOUT_MS,
+    );
+
+    try {
+      const response = await fetch(url, {
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        return null;
+      }
+
+      return await response.text();
+    } catch {
+      return null;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  public parseSubstackRSS(
+    rssText: string,
+    window: TimeWindow,
+    username: string,
+  ): ContentItem[] {
+    try {
+      const parser = new XMLParser();
+      const parsed = parser.parse(rssText) as SubstackRSSResponse;
+      const items = this.extractRssItems(parsed);
+
+      return items
+        .filter((item) => this.getItemLink(item) !== "")
+        .filter((item) => this.isItemWithinWindow(item, window))
+        .map((item) => this.convertToContentItem(item, username));
+    } catch {
+      return [];
+    }
+  }
+
+  private extractRssItems(parsed: SubstackRSSResponse): SubstackRSSItem[] {
+    const items = parsed?.rss?.channel?.item || [];
+
+    return Array.isArray(items) ? items : [items].filter(Boolean);
+  }
+
+  private isItemWithinWindow(item: SubstackRSSItem, window: TimeWindow): boolean {
+    return isWithinWindow(item.pubDate || "", window);
+  }
+
+  private getItemLink(item: SubstackRSSItem): string {
+    return String(item.link || "").trim() || String(item.guid || "").trim() || "";
+  }
+
+  private convertToContentItem(
+    item: SubstackRSSItem,
+    username: string,
+  ): ContentItem {
+    const link = this.getItemLink(item);
+    const title = item.title || "";
+    const description = item.description || item["content:encoded"] || "";
+    const pubDate = new Date(item.pubDate || "");
+
+    return {
+      id: this.generateContentId(link),
+      url: link,
+      title,
+      description,
+      publishedAt: pubDate,
+      author: item["dc:creator"] || username,
+      type: "ARTICLES",
+      platform: "SUBSTACK",
+    };
+  }
+
+  private generateContentId(url: string): string {
+    // Posts of one publication share the URL prefix, so the full URL is hashed.
+    return createHash("sha256")
+      .update(url)
+      .digest("hex")
+      .substring(0, SubstackStrategy.CONTENT_ID_LENGTH);
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+
+import { XStrategy } from "./xStrategy";
+import { createTimeWindow } from "../utils/time-window";
+
+const timelineHtml = readFileSync(join(__dirname, "__fixtures__", "x-timeline.html"), "utf8");
+
+describe("XStrategy", () => {
+  const strategy = new XStrategy();
+
+  describe("parseTimelineHtml", () => {
+    it("parses the creator's own posts", () => {
+      const posts = strategy.parseTimelineHtml(timelineHtml, "janedoe");
+
+      expect(posts.map((post) => post.id)).toEqual([
+        "1846000000000000001",
+        "1846000000000000003",
+      ]);
+      expect(posts[0]).toEqual({
+        id: "1846000000000000001",
+        url: "https://x.com/janedoe/status/1846000000000000001",
+        title: "Shipping the new release today 🚀",
+        description: "Shipping the new release today 🚀\nChangelog in the thread below.",
+        publishedAt: new Date("2026-10-14T09:30:00.000Z"),
+        author: "janedoe",
+        type: "POSTS",
+        platform: "X",
+      });
+    });
+
+    it("matches the author case-insensitively and keeps its casing", () => {
+      const post = strategy.parseTimelineHtml(timelineHtml, "JANEDOE")[1];
+
+      expect(post.author).toBe("JaneDoe");
+      expect(post.url).toBe("https://x.com/JaneDoe/status/1846000000000000003");
+    });
+
+    it("truncates long first lines for the title", () => {
+      const post = strategy.parseTimelineHtml(timelineHtml, "janedoe")[1];
+
+      expect(post.title).toHaveLength(120);
+      expect(post.title.endsWith("…")).toBe(true);
+      expect(post.description.startsWith(post.title.slice(0, -1))).toBe(true);
+    });
+
+    it("skips reposts, promoted cells and posts without a valid timestamp", () => {
+      const ids = strategy.parseTimelineHtml(timelineHtml, "janedoe").map((post) => post.id);
+
+      expect(ids).not.toContain("1846000000000000002");
+      expect(ids).not.toContain("1846000000000000004");
+    });
+
+    it("returns nothing for an empty page", () => {
+      expect(strategy.parseTimelineHtml("<html><body></body></html>", "janedoe")).toEqual([]);
+    });
+  });
+
+  describe("fetchContent", () => {
+    it("refuses usernames outside the handle charset without opening a page", async () => {
+      const window = createTimeWindow("2026-01-01T00:00:00Z", "2026-12-31T00:00:00Z");
+
+      expect(await strategy.fetchContent("//evil.com", window)).toEqual([]);
+      expect(await strategy.fetchContent("../i/flow", window)).toEqual([]);
+    });
+  });
+});
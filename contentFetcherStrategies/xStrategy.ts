@@ -0,0 +1,97 @@
+import { load } from "cheerio";
+
+import { ContentFetcherStrategy, ContentItem } from "./contentStrategyFactory";
+import { isWithinWindow, TimeWindow } from "../utils/time-window";
+import { scrollUntilEnd, withPage } from "../utils/browser";
+
+export class XStrategy implements ContentFetcherStrategy {
+  private static readonly PROFILE_URL_BASE = "https://x.com/";
+  private static readonly TITLE_MAX_LENGTH = 120;
+  // Handles end up in the profile URL, so anything outside X's charset
+  // (e.g. `//host`) would point the browser elsewhere.
+  private static readonly USERNAME_PATTERN = /^[A-Za-z0-9_]{1,15}$/;
+
+  async fetchContent(username: string, window: TimeWindow): Promise<ContentItem[]> {
+    if (!XStrategy.USERNAME_PATTERN.test(username)) {
+      return [];
+    }
+
+    return withPage(async (page) => {
+      const posts = new Map<string, ContentItem>();
+      const collect = async () => {
+        this.parseTimelineHtml(await page.content(), username).forEach((post) =>
+          posts.set(post.id, post),
+        );
+      };
+
+      await page.goto(new URL(username, XStrategy.PROFILE_URL_BASE).toString(), {
+        waitUntil: "networkidle2",
+        timeout: 20000,
+      });
+      await collect();
+
+      // The timeline is virtualized, so posts are collected after every
+      // scroll and scrolling stops once it reaches posts older than the window.
+      await scrollUntilEnd(
+        page,
+        { maxDurationMs: 30000, maxScrolls: 50, delayMs: 800 },
+        async () => {
+          await collect();
+
+          return ![...posts.values()].some(
+            (post) => post.publishedAt < window.from,
+          );
+        },
+      );
+
+      return [...posts.values()]
+        .filter((post) => isWithinWindow(post.publishedAt, window))
+        .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime());
+    });
+  }
+
+  public parseTimelineHtml(html: string, username: string): ContentItem[] {
+    const $ = load(html);
+    const posts = new Array<ContentItem>();
+
+    $('article[data-testid="tweet"]').each((_, article) => {
+      const $article = $(article);
+      const $time = $article.find("time[datetime]").first();
+      const statusPath = $time.closest("a").attr("href") || "";
+      const match = statusPath.match(/^\/([A-Za-z0-9_]+)\/status\/(\d+)/);
+
+      if (!match) return;
+
+      const [, author, statusId] = match;
+
+      if (author.toLowerCase() !== username.toLowerCase()) return;
+
+      const publishedAt = new Date($time.attr("datetime")!);
+
+      if (isNaN(publishedAt.getTime())) return;
+
+      const text = $article.find('[data-testid="tweetText"]').first().text().trim();
+
+      posts.push({
+        id: statusId,
+        url: new URL(`${author}/status/${statusId}`, XStrategy.PROFILE_URL_BASE).toString(),
+        title: this.buildTitle(text),
+        description: text,
+        publishedAt,
+        author,
+        type: "POSTS",
+        platform: "X",
+      });
+    });
+
+    return posts;
+  }
+
+  private buildTitle(text: string): string {
+    const firstLine = text.split("\n")[0].trim();
+
+    return firstLine.length > XStrategy.TITLE_MAX_LENGTH
+      ? `${firstLine.substring(0, XStrategy.TITLE_MAX_LENGTH - 1)}…`
+      : firstLine;
+  }
+}
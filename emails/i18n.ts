@@ -0,0 +1,120 @@
+export type Locale = "en" | "tr";
+
+type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+type Message = string | PluralMessage;
+
+const DEFAULT_LOCALE: Locale = "en";
+
+const catalog = {
+  en: {
+    subject: "Your Content Digest",
+    subjectWithUpdates: {
+      one: "Your Content Digest: {count} new update",
+      other: "Your Content Digest: {count} new updates",
+    },
+    previewWithUpdates: {
+      one: "{count} new update from your followings",
+      other: "{count} new updates from your followings",
+    },
+    previewEmpty: "No new content from your followings",
+    heading: "Your Content Digest",
+    updates: { one: "{count} new update", other: "{count} new updates" },
+    creators: { one: "{count} creator", other: "{count} creators" },
+    subtitle: "{updates} from {creators}",
+    subtitleEmpty: "No new content at this time",
+    emptyDigest: "No new content available from your followings at this time.",
+    followingHeading: "{username} on {platform}",
+    noContent: "No new content",
+    published: "Published: {date}",
+    footer: "You're receiving this email because you subscribed to content updates.",
+    unsubscribe: "Unsubscribe from emails",
+    unsubscribeTitle: "Unsubscribe",
+    unsubscribePrompt: "Do you want to stop receiving this content digest?",
+    unsubscribeThis: "Unsubscribe from this digest",
+    unsubscribeAll: "Unsubscribe from all digests",
+    unsubscribeDone: "You have been unsubscribed.",
+    unsubscribeInvalid: "This unsubscribe link is invalid or has expired.",
+  },
+  tr: {
+    subject: "İçerik Özetin",
+    subjectWithUpdates: {
+      other: "İçerik Özetin: {count} yeni güncelleme",
+    },
+    previewWithUpdates: {
+      other: "Takip ettiklerinden {count} yeni güncelleme",
+    },
+    previewEmpty: "Takip ettiklerinden yeni içerik yok",
+    heading: "İçerik Özetin",
+    updates: { other: "{count} yeni güncelleme" },
+    creators: { other: "{count} içerik üreticisinden" },
+    subtitle: "{creators} {updates}",
+    subtitleEmpty: "Şu anda yeni içerik yok",
+    emptyDigest: "Şu anda takip ettiklerinden yeni içerik bulunmuyor.",
+    followingHeading: "{platform} üzerinde {username}",
+    noContent: "Yeni içerik yok",
+    published: "Yayınlanma: {date}",
+    footer: "Bu e-postayı içerik güncellemelerine abone olduğun için alıyorsun.",
+    unsubscribe: "E-posta aboneliğinden çık",
+    unsubscribeTitle: "Abonelikten çık",
+    unsubscribePrompt: "Bu içerik özetini almayı bırakmak istiyor musun?",
+    unsubscribeThis: "Bu özetten çık",
+    unsubscribeAll: "Tüm özetlerden çık",
+    unsubscribeDone: "Abonelikten çıkarıldın.",
+    unsubscribeInvalid: "Bu abonelikten çıkma bağlantısı geçersiz ya da süresi dolmuş.",
+  },
+} satisfies Record<Locale, Record<string, Message>>;
+
+export type MessageKey = keyof (typeof catalog)["en"];
+
+export type Translator = {
+  locale: Locale;
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+  plural: (key: MessageKey, count: number, params?: Record<string, string | number>) => string;
+  formatDate: (date: Date | string) => string;
+};
+
+export function resolveLocale(language?: string | null): Locale {
+  const code = (language || "").toLowerCase().split(/[-_]/)[0];
+
+  return code in catalog ? (code as Locale) : DEFAULT_LOCALE;
+}
+
+function interpolate(template: string, params: Record<string, string | number> = {}): string {
+  return template.replace(/\{(\w+)\}/g, (match, name) =>
+    name in params ? String(params[name]) : match,
+  );
+}
+
+function createDateFormatter(locale: Locale, timezone: string): Intl.DateTimeFormat {
+  try {
+    return new Intl.DateTimeFormat(locale, { dateStyle: "medium", timeZone: timezone });
+  } catch {
+    return new Intl.DateTimeFormat(locale, { dateStyle: "medium", timeZone: "UTC" });
+  }
+}
+
+export function createTranslator(locale: Locale, timezone = "UTC"): Translator {
+  const messages: Record<MessageKey, Message> = catalog[locale];
+  const pluralRules = new Intl.PluralRules(locale);
+  const dateFormatter = createDateFormatter(locale, timezone);
+
+  const resolve = (key: MessageKey, count?: number): string => {
+    const message = messages[key] ?? catalog[DEFAULT_LOCALE][key];
+
+    if (typeof message === "string") {
+      return message;
+    }
+
+    const category = count === undefined ? "other" : pluralRules.select(count);
+
+    return message[category] ?? message.other;
+  };
+
+  return {
+    locale,
+    t: (key, params) => interpolate(resolve(key), params),
+    plural: (key, count, params) =>
+      interpolate(resolve(key, count), { count, ...params }),
+    formatDate: (date) => dateFormatter.format(new Date(date)),
+  };
+}
@@ -13,6 +13,8 @@ import {
 } from "@react-email/components";
 import * as React from "react";
 
+import { createTranslator, Locale } from "./i18n";
+
 interface ContentItem {
   title: string;
   url: string;
@@ -23,42 +25,52 @@ interface ContentItem {
 
 interface FollowingContent {
   username: string;
-  platform: "medium" | "instagram" | "x";
+  platform: "medium" | "substack" | "feed" | "instagram" | "x";
   contents: ContentItem[];
 }
 
 interface NewsletterEmailProps {
   userEmail: string;
   followings: FollowingContent[];
+  locale?: Locale;
+  timezone?: string;
+  unsubscribeUrl?: string;
+  openPixelUrl?: string;
 }
 
 export const NewsletterEmail = ({
   userEmail: _userEmail = "user@example.com",
   followings = [],
+  locale = "en",
+  timezone = "UTC",
+  unsubscribeUrl = `${process.env.WEBSITE_URL}/profile`,
+  openPixelUrl,
 }: NewsletterEmailProps) => {
+  const { t, plural, formatDate } = createTranslator(locale, timezone);
   const totalContents = followings.reduce((sum, f) => sum + f.contents.length, 0);
   const previewText = totalContents > 0
-    ? `${totalContents} new ${totalContents === 1 ? 'update' : 'updates'} from your followings`
-    : "No new content from your followings";
+    ? plural("previewWithUpdates", totalContents)
+    : t("previewEmpty");
 
   return (
-    <Html>
+    <Html lang={locale}>
       <Head />
       <Preview>{previewText}</Preview>
       <Body style={main}>
         <Container style={container}>
-          <Heading style={h1}>Your Content Digest</Heading>
+          <Heading style={h1}>{t("heading")}</Heading>
           <Text style={subtitle}>
             {totalContents > 0
-              ? `${totalContents} new ${totalContents === 1 ? 'update' : 'updates'} from ${followings.length} ${followings.length === 1 ? 'creator' : 'creators'}`
-              : "No new content at this time"}
+              ? t("subtitle", {
+                  updates: plural("updates", totalContents),
+                  creators: plural("creators", followings.length),
+                })
+              : t("subtitleEmpty")}
           </Text>
 
           {followings.length === 0 ? (
             <Section style={section}>
-              <Text style={text}>
-                No new content available from your followings at this time.
-              </Text>
+              <Text style={text}>{t("emptyDigest")}</Text>
             </Section>
           ) : (
             followings.map((following, followingIndex) => {
@@ -67,11 +79,14 @@ export const NewsletterEmail = ({
               return (
                 <Section key={followingIndex} style={followingSection}>
                   <Heading as="h2" style={h2}>
-                    {following.username} on {platformName}
+                    {t("followingHeading", {
+                      username: following.username,
+                      platform: platformName,
+                    })}
                   </Heading>
 
                   {following.contents.length === 0 ? (
-                    <Text style={noContentText}>No new content</Text>
+                    <Text style={noContentText}>{t("noContent")}</Text>
                   ) : (
                     following.contents.map((content, contentIndex) => (
                       <Section key={contentIndex} style={contentSection}>
@@ -92,7 +107,7 @@ export const NewsletterEmail = ({
                         )}
                         {content.publishedAt && (
                           <Text style={publishedDate}>
-                            Published: {new Date(content.publishedAt).toLocaleDateString()}
+                            {t("published", { date: formatDate(content.publishedAt) })}
                           </Text>
                         )}
                         {contentIndex < following.contents.length - 1 && <Hr style={contentHr} />}
@@ -109,12 +124,16 @@ export const NewsletterEmail = ({
           <Hr style={hr} />
 
           <Text style={footer}>
-            You're receiving this email because you subscribed to content updates.
+            {t("footer")}
             <br />
-            <Link href={`${process.env.WEBSITE_URL}/profile`} style={unsubscribeLink}>
-              Unsubscribe from emails
+            <Link href={unsubscribeUrl} style={unsubscribeLink}>
+              {t("unsubscribe")}
             </Link>
           </Text>
+
+          {openPixelUrl && (
+            <Img src={openPixelUrl} width="1" height="1" alt="" style={trackingPixel} />
+          )}
         </Container>
       </Body>
     </Html>
@@ -237,6 +256,13 @@ const footer = {
   marginTop: "32px",
 };
 
+const trackingPixel = {
+  display: "block",
+  width: "1px",
+  height: "1px",
+  border: "0",
+};
+
 const unsubscribeLink = {
   color: "#0066cc",
   textDecoration: "underline",
@@ -1,7 +1,8 @@
 import { render } from "@react-email/components";
 import NewsletterEmail from "./newsletter";
+import { Locale } from "./i18n";
 
-interface ContentItem {
+export interface EmailContentItem {
   title: string;
   url: string;
   publishedAt?: string;
@@ -9,27 +10,47 @@ interface ContentItem {
   description?: string;
 }
 
-interface FollowingContent {
+export interface FollowingContent {
   username: string;
-  platform: "medium" | "instagram" | "x";
-  contents: ContentItem[];
+  platform: "medium" | "substack" | "feed" | "instagram" | "x";
+  contents: EmailContentItem[];
 }
 
 interface RenderNewsletterEmailParams {
   userEmail: string;
   followings: FollowingContent[];
+  locale: Locale;
+  timezone: string;
+  unsubscribeUrl: string;
+  openPixelUrl?: string;
+}
+
+export interface RenderedNewsletterEmail {
+  html: string;
+  text: string;
 }
 
 export async function renderNewsletterEmail({
   userEmail,
   followings,
-}: RenderNewsletterEmailParams): Promise<string> {
-  const html = await render(
-    NewsletterEmail({
-      userEmail,
-      followings,
-    })
-  );
+  locale,
+  timezone,
+  unsubscribeUrl,
+  openPixelUrl,
+}: RenderNewsletterEmailParams): Promise<RenderedNewsletterEmail> {
+  const email = NewsletterEmail({
+    userEmail,
+    followings,
+    locale,
+    timezone,
+    unsubscribeUrl,
+    openPixelUrl,
+  });
+
+  const [html, text] = await Promise.all([
+    render(email),
+    render(email, { plainText: true }),
+  ]);
 
-  return html;
+  return { html, text };
 }
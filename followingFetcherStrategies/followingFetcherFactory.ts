@@ -1,4 +1,7 @@
+import { InstagramStrategy } from "./instagramStrategy";
 import { MediumStrategy } from "./mediumStrategy";
+import { SubstackStrategy } from "./substackStrategy";
+import { XStrategy } from "./xStrategy";
 
 export type FollowingUser = {
   fullName: string;
@@ -7,19 +10,48 @@ export type FollowingUser = {
   profilePictureUrl?: string;
 };
 
+export type CachedFollowing = FollowingUser & {
+  /** When the following was first seen by a sync, as an ISO timestamp. */
+  firstSeenAt?: string;
+};
+
 export type CachedFollowingsDTO = {
-  followings: Array<FollowingUser>;
+  followings: Array<CachedFollowing>;
   fetchedAt: Date;
 };
 
+export type GetFollowingsOptions = {
+  /**
+   * Lower-cased usernames from the previous sync. Following lists are ordered
+   * newest first, so scrolling stops once it runs into these.
+   */
+  knownUsernames?: Set<string>;
+  /** Called with the number of profiles loaded so far while scrolling. */
+  onProgress?: (loadedCount: number) => Promise<void>;
+};
+
+export type CreatorProfileDetails = {
+  bio?: string;
+  followerCount?: number;
+  /**
+   * Publication dates of the creator's recent posts. Left out when the
+   * public profile does not expose them.
+   */
+  publishedDates?: Date[];
+};
+
 export interface FollowingFetcherStrategy {
   isUserExists(username: string): Promise<boolean>;
-  getFollowings(username: string): Promise<FollowingUser[]>;
+  getFollowings(username: string, options?: GetFollowingsOptions): Promise<FollowingUser[]>;
+  getProfile(username: string): Promise<CreatorProfileDetails>;
 }
 
 export class FollowingFetcherStrategyFactory {
-  private static strategies: Map<string, FollowingFetcherStrategy> = new Map([
+  private static strategies: Map<string, FollowingFetcherStrategy> = new Map<string, FollowingFetcherStrategy>([
     ["MEDIUM", new MediumStrategy()],
+    ["SUBSTACK", new SubstackStrategy()],
+    ["X", new XStrategy()],
+    ["INSTAGRAM", new InstagramStrategy()],
   ]);
 
   static getStrategy(platformId: string): FollowingFetcherStrategy {
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+
+import { InstagramStrategy } from "./instagramStrategy";
+
+const followingHtml = readFileSync(join(__dirname, "__fixtures__", "instagram-following.html"), "utf8");
+const profileInfo = JSON.parse(
+  readFileSync(join(__dirname, "..", "contentFetcherStrategies", "__fixtures__", "instagram-web-profile-info.json"), "utf8"),
+);
+
+describe("InstagramStrategy", () => {
+  const strategy = new InstagramStrategy();
+
+  describe("parseFollowingsHtml", () => {
+    it("parses the rows of the following dialog once each", () => {
+      expect(strategy.parseFollowingsHtml(followingHtml)).toEqual([
+        {
+          fullName: "National Geographic",
+          username: "natgeo",
+          profileUrl: "https://www.instagram.com/natgeo/",
+          profilePictureUrl: "https://scontent.cdninstagram.com/v/t51.2885-19/natgeo.jpg",
+        },
+        {
+          fullName: "jane.doe",
+          username: "jane.doe",
+          profileUrl: "https://www.instagram.com/jane.doe/",
+          profilePictureUrl: "https://scontent.cdninstagram.com/v/t51.2885-19/jane.jpg",
+        },
+      ]);
+    });
+  });
+
+  describe("parseProfileInfo", () => {
+    it("reads the bio, follower count and post dates", () => {
+      expect(strategy.parseProfileInfo(profileInfo)).toEqual({
+        bio: "Photographer. Istanbul.",
+        followerCount: 12840,
+        publishedDates: [
+          new Date("2026-10-17T10:00:00.000Z"),
+          new Date("2026-10-14T10:00:00.000Z"),
+          new Date(1791800000 * 1000),
+        ],
+      });
+    });
+  });
+
+  describe("username validation", () => {
+    it("reports unknown handles without a request", async () => {
+      expect(await strategy.isUserExists("//evil.com")).toBe(false);
+      expect(await strategy.isUserExists("..")).toBe(false);
+    });
+
+    it("refuses to scrape invalid handles", async () => {
+      await expect(strategy.getFollowings("//evil.com")).rejects.toThrow("Invalid Instagram username");
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { load } from "cheerio";
+
+import { withPage } from "../utils/browser";
+import {
+  CreatorProfileDetails,
+  FollowingFetcherStrategy,
+  FollowingUser,
+  GetFollowingsOptions,
+} from "./followingFetcherFactory";
+import { hasReachedKnownFollowings } from "./knownFollowings";
+
+type InstagramProfileInfo = {
+  data?: {
+    user?: {
+      biography?: string;
+      edge_followed_by?: { count: number };
+      edge_owner_to_timeline_media?: {
+        edges: Array<{ node: { taken_at_timestamp: number } }>;
+      };
+    };
+  };
+};
+
+export class InstagramStrategy implements FollowingFetcherStrategy {
+  private static readonly PROFILE_URL_BASE = "https://www.instagram.com/";
+  private static readonly PROFILE_INFO_URL =
+    "https://www.instagram.com/api/v1/users/web_profile_info/";
+  private static readonly WEB_APP_ID = "936619743392459";
+  // Handles end up in the profile URL, so anything outside Instagram's
+  // charset (e.g. `//host` or `..`) would point the browser elsewhere.
+  private static readonly USERNAME_PATTERN = /^(?!\.)(?!.*\.\.)[A-Za-z0-9._]{1,30}(?<!\.)$/;
+  private static readonly RESERVED_PATHS = new Set([
+    "explore",
+    "reels",
+    "direct",
+    "accounts",
+    "stories",
+  ]);
+
+  public getFollowings = async (
+    username: string,
+    options: GetFollowingsOptions = {},
+  ): Promise<FollowingUser[]> => {
+    this.assertValidUsername(username);
+
+    return withPage(async (page) => {
+      const followings = new Map<string, FollowingUser>();
+      const collect = async () => {
+        this.parseFollowingsHtml(await page.content()).forEach((following) =>
+          followings.set(following.username, following),
+        );
+        await options.onProgress?.(followings.size);
+      };
+
+      await page.goto(
+        new URL(`${username}/following/`, InstagramStrategy.PROFILE_URL_BASE).toString(),
+        { waitUntil: "networkidle2", timeout: 20000 },
+      );
+      await page.waitForSelector('div[role="dialog"]', { timeout: 10000 });
+      await collect();
+
+      // Only the dialog scrolls, not the document, so the list container is
+      // scrolled directly until it stops growing.
+      const start = Date.now();
+      let previousCount = -1;
+
+      while (
+        followings.size !== previousCount &&
+        Date.now() - start < 55000 &&
+        !hasReachedKnownFollowings([...followings.values()], options.knownUsernames)
+      ) {
+        previousCount = followings.size;
+        await page.evaluate(`
+          (() => {
+            const dialog = document.querySelector('div[role="dialog"]');
+            const scrollable = dialog && [...dialog.querySelectorAll("div")]
+              .find((el) => el.scrollHeight > el.clientHeight);
+            if (scrollable) scrollable.scrollTop = scrollable.scrollHeight;
+          })()
+        `);
+        await new Promise((resolve) => setTimeout(resolve, 600));
+        await collect();
+      }
+
+      return [...followings.values()];
+    });
+  };
+
+  public async isUserExists(username: string): Promise<boolean> {
+    if (!InstagramStrategy.USERNAME_PATTERN.test(username)) {
+      return false;
+    }
+
+    const url = new URL(InstagramStrategy.PROFILE_INFO_URL);
+    url.searchParams.set("username", username);
+
+    const response = await fetch(url, {
+      headers: { "x-ig-app-id": InstagramStrategy.WEB_APP_ID },
+    });
+    return response.ok;
+  }
+
+  public async getProfile(username: string): Promise<CreatorProfileDetails> {
+    this.assertValidUsername(username);
+
+    const url = new URL(InstagramStrategy.PROFILE_INFO_URL);
+    url.searchParams.set("username", username);
+
+    const response = await fetch(url, {
+      headers: { "x-ig-app-id": InstagramStrategy.WEB_APP_ID },
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Instagram profile of ${username}: ${response.status}`);
+    }
+
+    return this.parseProfileInfo((await response.json()) as InstagramProfileInfo);
+  }
+
+  public parseProfileInfo(json: InstagramProfileInfo): CreatorProfileDetails {
+    const user = json?.data?.user;
+    const edges = user?.edge_owner_to_timeline_media?.edges || [];
+
+    return {
+      bio: user?.biography?.trim() || undefined,
+      followerCount: user?.edge_followed_by?.count,
+      publishedDates: edges
+        .map(({ node }) => new Date(node.taken_at_timestamp * 1000))
+        .filter((date) => !isNaN(date.getTime())),
+    };
+  }
+
+  public parseFollowingsHtml(html: string): FollowingUser[] {
+    const $ = load(html);
+    const followings = new Map<string, FollowingUser>();
+
+    $('div[role="dialog"] img').each((_, img) => {
+      const $row = $(img)
+        .parents("div")
+        .filter((_, el) => $(el).find("a[href]").length > 0 && $(el).find("span").length > 0)
+        .first();
+      const username = $row
+        .find("a[href]")
+        .map((_, link) => this.getUsername($(link).attr("href") || ""))
+        .get()
+        .find((candidate) => candidate !== "");
+
+      if (!username || followings.has(username)) return;
+
+      const fullName = $row
+        .find("span")
+        .map((_, span) => $(span).children().length === 0 ? $(span).text().trim() : "")
+        .get()
+        .find((text) => text !== "" && text !== username && !/^follow(ing)?$/i.test(text));
+
+      followings.set(username, {
+        fullName: fullName || username,
+        username,
+        profileUrl: new URL(`${username}/`, InstagramStrategy.PROFILE_URL_BASE).toString(),
+        profilePictureUrl: $(img).attr("src"),
+      });
+    });
+
+    return [...followings.values()];
+  }
+
+  private assertValidUsername(username: string): void {
+    if (!InstagramStrategy.USERNAME_PATTERN.test(username)) {
+      throw new Error(`Invalid Instagram username: ${username}`);
+    }
+  }
+
+  private getUsername(path: string): string {
+    const match = path.match(/^\/([A-Za-z0-9._]+)\/?$/);
+
+    if (!match || InstagramStrategy.RESERVED_PATHS.has(match[1])) {
+      return "";
+    }
+
+    return match[1];
+  }
+}
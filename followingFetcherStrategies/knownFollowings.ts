@@ -0,0 +1,27 @@
+import { FollowingUser } from "./followingFetcherFactory";
+
+// Consecutive known entries needed before the rest of the list is assumed
+// to be known too; a few re-ordered entries must not end a sync early.
+const KNOWN_STREAK_TO_STOP = 20;
+
+export function hasReachedKnownFollowings(
+  followings: FollowingUser[],
+  knownUsernames?: Set<string>,
+): boolean {
+  if (!knownUsernames || knownUsernames.size === 0) {
+    return false;
+  }
+
+  const streakToStop = Math.min(KNOWN_STREAK_TO_STOP, knownUsernames.size);
+  let streak = 0;
+
+  for (const following of followings) {
+    streak = knownUsernames.has(following.username.toLowerCase()) ? streak + 1 : 0;
+
+    if (streak >= streakToStop) {
+      return true;
+    }
+  }
+
+  return false;
+}
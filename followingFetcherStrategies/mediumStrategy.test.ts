@@ -0,0 +1,83 @@
+import { describe, expect, it } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+
+import { MediumStrategy } from "./mediumStrategy";
+
+const readFixture = (name: string) => readFileSync(join(__dirname, "__fixtures__", name), "utf8");
+
+describe("MediumStrategy", () => {
+  const strategy = new MediumStrategy();
+
+  describe("parseGraphqlResponse", () => {
+    const response = JSON.parse(readFixture("medium-following-graphql.json"));
+
+    it("reads the users of the following connection", () => {
+      expect(strategy.parseGraphqlResponse(response, "janedoe")).toEqual([
+        {
+          fullName: "Dan Abramov",
+          username: "dan_abramov",
+          profileUrl: "https://medium.com/@dan_abramov",
+          profilePictureUrl: "https://miro.medium.com/v2/1*3Xu1gUKZrXUamkVPNVyNuA.jpeg",
+        },
+        {
+          fullName: "no.picture",
+          username: "no.picture",
+          profileUrl: "https://medium.com/@no.picture",
+          profilePictureUrl: undefined,
+        },
+      ]);
+    });
+
+    it("leaves out the owner and users outside following fields", () => {
+      const usernames = strategy
+        .parseGraphqlResponse(response, "JANEDOE")
+        .map((following) => following.username);
+
+      expect(usernames).not.toContain("JaneDoe");
+      expect(usernames).not.toContain("janedoe");
+      expect(usernames).not.toContain("suggested_writer");
+    });
+
+    it("returns nothing for responses without a following field", () => {
+      expect(strategy.parseGraphqlResponse({ data: { viewer: null } }, "janedoe")).toEqual([]);
+      expect(strategy.parseGraphqlResponse(null, "janedoe")).toEqual([]);
+    });
+  });
+
+  describe("parseFollowingsHtml", () => {
+    const html = readFixture("medium-following.html");
+
+    it("reads followings from profile links in the page", () => {
+      expect(strategy.parseFollowingsHtml(html, "janedoe")).toEqual([
+        {
+          fullName: "Dan Abramov",
+          username: "dan_abramov",
+          profileUrl: "https://medium.com/@dan_abramov",
+          profilePictureUrl: "https://miro.medium.com/v2/1*3Xu1gUKZrXUamkVPNVyNuA.jpeg",
+        },
+        {
+          fullName: "A Subdomain Writer",
+          username: "writer",
+          profileUrl: "https://medium.com/@writer",
+          profilePictureUrl: "https://miro.medium.com/v2/1*writer.png",
+        },
+        {
+          fullName: "No Picture",
+          username: "no.picture",
+          profileUrl: "https://medium.com/@no.picture",
+          profilePictureUrl: undefined,
+        },
+      ]);
+    });
+
+    it("ignores the owner, reserved subdomains and non-profile links", () => {
+      const usernames = strategy
+        .parseFollowingsHtml(html, "janedoe")
+        .map((following) => following.username);
+
+      expect(usernames).not.toContain("janedoe");
+      expect(usernames).not.toContain("help");
+    });
+  });
+});
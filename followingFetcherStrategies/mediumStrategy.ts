@@ -1,157 +1,310 @@
-import Stealth from "puppeteer-extra-plugin-stealth";
-import chromium from "@sparticuz/chromium";
-import puppeteer from "puppeteer-extra";
 import { load } from "cheerio";
+import { XMLParser } from "fast-xml-parser";
+import type { HTTPResponse } from "puppeteer-core";
 
+import { scrollUntilEnd, withPage } from "../utils/browser";
 import {
+  CreatorProfileDetails,
   FollowingFetcherStrategy,
   FollowingUser,
+  GetFollowingsOptions,
 } from "./followingFetcherFactory";
+import { hasReachedKnownFollowings } from "./knownFollowings";
+
+type GraphqlUser = {
+  __typename?: string;
+  username?: string;
+  name?: string;
+  imageId?: string;
+};
+
+type MediumProfileJson = {
+  payload?: {
+    user?: { userId?: string; bio?: string };
+    references?: {
+      SocialStats?: Record<string, { usersFollowedByCount?: number }>;
+    };
+  };
+};
 
-export class MediumStrategy implements FollowingFetcherStrategy {
-  public getFollowings = async (username: string): Promise<FollowingUser[]> => {
-    const isLocal = Boolean(process.env.PUPPETEER_CHROMIUM_PATH);
-    const executablePath = isLocal
-      ? process.env.PUPPETEER_CHROMIUM_PATH
-      : await chromium.executablePath();
-
-    const browser = await puppeteer.use(Stealth()).launch({
-      args: isLocal ? [] : chromium.args,
-      executablePath,
-      headless: isLocal ? true : "shell",
-    });
-
-    try {
-      const page = await browser.newPage();
-      const profileUrl = `https://medium.com/@${username}/following`;
-
-      await page.goto(profileUrl, {
-        waitUntil: "networkidle2",
-        timeout: 20000,
-      });
+type MediumFeed = {
+  rss?: {
+    channel?: {
+      item?: { pubDate?: string } | Array<{ pubDate?: string }>;
+    };
+  };
+};
 
-      await this.scrollUntilEnd(page, {
-        maxDurationMs: 55000,
-        maxScrolls: 1000,
-        delayMs: 600,
+export class MediumStrategy implements FollowingFetcherStrategy {
+  private static readonly PROFILE_URL_BASE = "https://medium.com/";
+  private static readonly IMAGE_URL_BASE = "https://miro.medium.com/v2/";
+  private static readonly GRAPHQL_PATH = "/_/graphql";
+  // Prefix Medium puts in front of its JSON responses against JSON hijacking.
+  private static readonly JSON_PREFIX = "])}while(1);</x>";
+  private static readonly RESERVED_SUBDOMAINS = new Set([
+    "www",
+    "miro",
+    "cdn-images-1",
+    "help",
+    "policy",
+    "blog",
+  ]);
+
+  public getFollowings = async (
+    username: string,
+    options: GetFollowingsOptions = {},
+  ): Promise<FollowingUser[]> => {
+    return withPage(async (page) => {
+      const fromGraphql = new Map<string, FollowingUser>();
+      const pendingResponses = new Array<Promise<void>>();
+
+      // The following page loads its list through Medium's GraphQL API, so
+      // the responses are read directly instead of the generated markup.
+      page.on("response", (response: HTTPResponse) => {
+        if (!this.isGraphqlResponse(response)) return;
+
+        pendingResponses.push(
+          response
+            .json()
+            .then((json) => {
+              this.parseGraphqlResponse(json, username).forEach((following) =>
+                fromGraphql.set(following.username.toLowerCase(), following),
+              );
+            })
+            .catch(() => undefined),
+        );
       });
 
-      const html = await page.content();
-      const $ = load(html);
+      const collect = async () => {
+        await Promise.all(pendingResponses);
 
-      const followings = new Array<FollowingUser>();
-      const path =
-        "#root > div > div.m.c > div.ac > div.cd.bi.ce.cf.cg.ch > div > main > div > div > div > div:nth-child(4) > div > ul";
-      const profiles = $(path);
+        return fromGraphql.size > 0
+          ? [...fromGraphql.values()]
+          : this.parseFollowingsHtml(await page.content(), username);
+      };
 
-      profiles.children().each((_, profile) => {
-        const $profile = $(profile);
-        const profileUrl = $profile.find("a").attr("href")!;
-        const username = this.getUsername(profileUrl);
+      await page.goto(
+        new URL(`@${username}/following`, MediumStrategy.PROFILE_URL_BASE).toString(),
+        { waitUntil: "networkidle2", timeout: 20000 },
+      );
 
-        if (username === "") return;
+      await scrollUntilEnd(
+        page,
+        {
+          maxDurationMs: 55000,
+          maxScrolls: 1000,
+          delayMs: 600,
+        },
+        options.knownUsernames || options.onProgress
+          ? async () => {
+              const followings = await collect();
+              await options.onProgress?.(followings.length);
+
+              return !hasReachedKnownFollowings(followings, options.knownUsernames);
+            }
+          : undefined,
+      );
 
-        const fullName = $profile.find("h2").text().trim();
-        const profilePictureUrl = $profile.find("img").attr("src");
+      return collect();
+    });
+  };
 
-        followings.push({
-          profilePictureUrl: profilePictureUrl
-            ? this.sanitizeProfilePictureUrl(profilePictureUrl)
-            : undefined,
-          profileUrl: this.sanitizeProfileUrl(profileUrl),
-          fullName,
-          username,
-        });
-      });
+  public async isUserExists(username: string): Promise<boolean> {
+    const response = await fetch(`https://medium.com/feed/@${username}`);
+    return response.ok;
+  }
 
-      return followings;
-    } finally {
-      await browser.close();
+  /**
+   * Reads publication dates from the RSS feed and, best effort, the bio and
+   * follower count from the JSON version of the profile page. The JSON
+   * endpoint is undocumented, so a failure there only drops those fields.
+   */
+  public async getProfile(username: string): Promise<CreatorProfileDetails> {
+    const feedResponse = await fetch(`https://medium.com/feed/@${username}`);
+    if (!feedResponse.ok) {
+      throw new Error(`Failed to fetch Medium feed of ${username}: ${feedResponse.status}`);
     }
-  };
 
-  private async scrollUntilEnd(
-    page: any,
-    opts: { maxDurationMs: number; maxScrolls: number; delayMs: number },
-  ) {
-    const { maxDurationMs, maxScrolls, delayMs } = opts;
-    const start = Date.now();
-    let previousHeight = await page.evaluate(
-      "document.body.scrollHeight || document.documentElement.scrollHeight",
-    );
-
-    for (let i = 0; i < maxScrolls; i++) {
-      await page.evaluate(
-        "window.scrollTo(0, document.body.scrollHeight || document.documentElement.scrollHeight)",
-      );
-      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    const publishedDates = this.parseFeedDates(await feedResponse.text());
 
-      const newHeight = await page.evaluate(
-        "document.body.scrollHeight || document.documentElement.scrollHeight",
-      );
+    try {
+      const profileUrl = new URL(`@${username}`, MediumStrategy.PROFILE_URL_BASE);
+      profileUrl.searchParams.set("format", "json");
 
-      if (newHeight === previousHeight) {
-        break;
+      const profileResponse = await fetch(profileUrl);
+      if (!profileResponse.ok) {
+        return { publishedDates };
       }
 
-      previousHeight = newHeight;
-
-      if (Date.now() - start > maxDurationMs) {
-        break;
-      }
+      return {
+        ...this.parseProfileJson(await profileResponse.text()),
+        publishedDates,
+      };
+    } catch {
+      return { publishedDates };
     }
   }
 
-  public async isUserExists(username: string): Promise<boolean> {
-    const response = await fetch(`https://medium.com/feed/@${username}`);
-    return response.ok;
+  public parseFeedDates(xml: string): Date[] {
+    const feed = new XMLParser().parse(xml) as MediumFeed;
+    const items = feed.rss?.channel?.item;
+
+    return (Array.isArray(items) ? items : items ? [items] : [])
+      .map((item) => new Date(item.pubDate || ""))
+      .filter((date) => !isNaN(date.getTime()));
+  }
+
+  public parseProfileJson(text: string): CreatorProfileDetails {
+    const json = JSON.parse(
+      text.startsWith(MediumStrategy.JSON_PREFIX)
+        ? text.slice(MediumStrategy.JSON_PREFIX.length)
+        : text,
+    ) as MediumProfileJson;
+    const user = json.payload?.user;
+    const stats = user?.userId
+      ? json.payload?.references?.SocialStats?.[user.userId]
+      : undefined;
+
+    return {
+      bio: user?.bio?.trim() || undefined,
+      followerCount: stats?.usersFollowedByCount,
+    };
   }
 
-  private getUsername(username: string): string {
-    const isValidUrl = URL.canParse(username);
+  /**
+   * Collects the users under any `following*` field of a GraphQL response
+   * (e.g. `user.followingUserConnection.users`), leaving out the profile
+   * owner and users from unrelated parts of the page such as recommendations.
+   */
+  public parseGraphqlResponse(json: unknown, ownerUsername: string): FollowingUser[] {
+    const followings = new Map<string, FollowingUser>();
+
+    const collectUsers = (node: unknown) => {
+      if (Array.isArray(node)) {
+        node.forEach(collectUsers);
+        return;
+      }
+      if (!node || typeof node !== "object") return;
+
+      const user = node as GraphqlUser;
+      if (user.__typename === "User" && user.username) {
+        if (user.username.toLowerCase() !== ownerUsername.toLowerCase()) {
+          followings.set(user.username.toLowerCase(), this.toFollowingUser(user));
+        }
+        return;
+      }
 
-    if (isValidUrl) {
-      const urlObj = new URL(username);
-      const domainSegments = urlObj.username.split(".");
+      Object.values(node).forEach(collectUsers);
+    };
 
-      if (urlObj.host.includes(username) && domainSegments.length === 2) {
-        return domainSegments[0];
+    const findFollowingFields = (node: unknown) => {
+      if (Array.isArray(node)) {
+        node.forEach(findFollowingFields);
+        return;
       }
+      if (!node || typeof node !== "object") return;
+
+      Object.entries(node).forEach(([key, value]) => {
+        if (/^following/i.test(key)) {
+          collectUsers(value);
+        } else {
+          findFollowingFields(value);
+        }
+      });
+    };
 
-      const pathSegments = urlObj.pathname.split("/");
+    findFollowingFields(json);
 
-      return pathSegments[pathSegments.length - 1];
-    }
+    return [...followings.values()];
+  }
 
-    return this.extractUsername(username);
+  /**
+   * Fallback for when no GraphQL response could be read. It only relies on
+   * profile links (`/@username` or `username.medium.com`), not on the
+   * generated class names that change with every Medium deploy.
+   */
+  public parseFollowingsHtml(html: string, ownerUsername: string): FollowingUser[] {
+    const $ = load(html);
+    const followings = new Map<string, FollowingUser>();
+
+    $("main a[href]").each((_, link) => {
+      const $link = $(link);
+      const username = this.getProfileUsername($link.attr("href")!);
+
+      if (!username || username.toLowerCase() === ownerUsername.toLowerCase()) return;
+
+      const key = username.toLowerCase();
+      const $item = $link.closest("li").length > 0 ? $link.closest("li") : $link;
+      const fullName =
+        $item.find("h2").first().text().trim() ||
+        $link.text().trim() ||
+        followings.get(key)?.fullName ||
+        "";
+      const profilePictureUrl =
+        $item.find("img[src]").first().attr("src") || $link.find("img[src]").attr("src");
+
+      if (fullName === "" && !followings.has(key) && !profilePictureUrl) return;
+
+      const existing = followings.get(key);
+      followings.set(key, {
+        fullName: fullName || existing?.fullName || username,
+        username,
+        profileUrl: new URL(`@${username}`, MediumStrategy.PROFILE_URL_BASE).toString(),
+        profilePictureUrl: profilePictureUrl
+          ? this.sanitizeProfilePictureUrl(profilePictureUrl)
+          : existing?.profilePictureUrl,
+      });
+    });
+
+    return [...followings.values()];
   }
 
-  private sanitizeProfileUrl(url: string): string {
-    const isValidUrl = URL.canParse(url);
+  private isGraphqlResponse(response: HTTPResponse): boolean {
+    if (!response.ok()) return false;
 
-    if (isValidUrl) {
-      const urlObj = new URL(url);
+    try {
+      return new URL(response.url()).pathname === MediumStrategy.GRAPHQL_PATH;
+    } catch {
+      return false;
+    }
+  }
 
-      urlObj!.search = "";
+  private toFollowingUser(user: GraphqlUser): FollowingUser {
+    const username = user.username!;
+
+    return {
+      fullName: user.name?.trim() || username,
+      username,
+      profileUrl: new URL(`@${username}`, MediumStrategy.PROFILE_URL_BASE).toString(),
+      profilePictureUrl: user.imageId
+        ? new URL(user.imageId, MediumStrategy.IMAGE_URL_BASE).toString()
+        : undefined,
+    };
+  }
 
-      return urlObj.toString();
+  private getProfileUsername(href: string): string | null {
+    const url = URL.canParse(href)
+      ? new URL(href)
+      : new URL(href, MediumStrategy.PROFILE_URL_BASE);
+    const path = url.pathname.replace(/\/+$/, "");
+
+    if (url.hostname === "medium.com") {
+      const match = path.match(/^\/@([a-zA-Z0-9_.-]+)$/);
+      return match ? match[1] : null;
     }
 
-    const username = this.extractUsername(url);
+    const subdomain = url.hostname.match(/^([a-zA-Z0-9-]+)\.medium\.com$/);
+    if (subdomain && path === "" && !MediumStrategy.RESERVED_SUBDOMAINS.has(subdomain[1])) {
+      return subdomain[1];
+    }
 
-    return `https://medium.com/@${username}`;
+    return null;
   }
 
   private sanitizeProfilePictureUrl(url: string): string {
-    const urlObj = new URL(url);
+    const urlObj = new URL(url, MediumStrategy.IMAGE_URL_BASE);
     const paths = urlObj.pathname.split("/");
 
     return new URL(`/v2/${paths[paths.length - 1]}`, urlObj.origin).toString();
   }
-
-  private extractUsername(username: string): string {
-    const match = username.match(/@([a-zA-Z0-9_-]+)/);
-
-    return match ? match[1] : username;
-  }
 }
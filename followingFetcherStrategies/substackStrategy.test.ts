@@ -0,0 +1,65 @@
+import { describe, expect, it } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+
+import { SubstackStrategy } from "./substackStrategy";
+
+const readFixture = (name: string) => readFileSync(join(__dirname, "__fixtures__", name), "utf8");
+
+describe("SubstackStrategy", () => {
+  const strategy = new SubstackStrategy();
+
+  describe("parsePublicProfile", () => {
+    const profile = JSON.parse(readFixture("substack-public-profile.json"));
+
+    it("reads the subscribed publications by subdomain", () => {
+      expect(strategy.parsePublicProfile(profile)).toEqual([
+        {
+          fullName: "Platformer",
+          username: "platformer",
+          profileUrl: "https://www.platformer.news/",
+          profilePictureUrl: "https://substackcdn.com/image/fetch/platformer.png",
+        },
+        {
+          fullName: "Jane's Notes",
+          username: "janenotes",
+          profileUrl: "https://janenotes.substack.com/",
+          profilePictureUrl: undefined,
+        },
+      ]);
+    });
+
+    it("returns nothing for profiles without subscriptions", () => {
+      expect(strategy.parsePublicProfile({ handle: "janedoe" })).toEqual([]);
+      expect(strategy.parsePublicProfile(null)).toEqual([]);
+    });
+  });
+
+  describe("parseFeed", () => {
+    // The feed read by the content strategy of the same platform.
+    const feed = readFileSync(
+      join(__dirname, "..", "contentFetcherStrategies", "__fixtures__", "substack-feed.xml"),
+      "utf8",
+    );
+
+    it("reads the description and publication dates of a publication", () => {
+      expect(strategy.parseFeed(feed)).toEqual({
+        bio: "Essays on building software.",
+        publishedDates: [
+          new Date("2026-10-17T10:00:00.000Z"),
+          new Date("2026-10-14T08:30:00.000Z"),
+          new Date("2026-10-13T08:30:00.000Z"),
+          new Date("2026-01-01T09:00:00.000Z"),
+        ],
+      });
+    });
+  });
+
+  describe("isUserExists", () => {
+    it("refuses handles outside the handle charset without a request", async () => {
+      for (const username of ["../janedoe", "jane/doe", "jane doe", ""]) {
+        expect(await strategy.isUserExists(username)).toBe(false);
+      }
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { XMLParser } from "fast-xml-parser";
+
+import {
+  CreatorProfileDetails,
+  FollowingFetcherStrategy,
+  FollowingUser,
+} from "./followingFetcherFactory";
+
+type SubstackPublication = {
+  name?: string;
+  subdomain?: string;
+  custom_domain?: string | null;
+  logo_url?: string | null;
+};
+
+type SubstackPublicProfile = {
+  subscriptions?: Array<{ publication?: SubstackPublication }>;
+};
+
+type SubstackFeed = {
+  rss?: {
+    channel?: {
+      description?: string;
+      item?: { pubDate?: string } | Array<{ pubDate?: string }>;
+    };
+  };
+};
+
+export class SubstackStrategy implements FollowingFetcherStrategy {
+  private static readonly PROFILE_API_BASE = "https://substack.com/api/v1/user/";
+  private static readonly FEED_URL_SUFFIX = ".substack.com/feed";
+  private static readonly HANDLE_PATTERN = /^[a-zA-Z0-9_-]+$/;
+  // Followings are publications, read through the content strategy by subdomain.
+  private static readonly PUBLICATION_PATTERN = /^[a-z0-9-]+$/;
+
+  /**
+   * Substack lists the publications a reader subscribes to on their public
+   * profile, so the followings come from its JSON API without a browser.
+   */
+  public async getFollowings(username: string): Promise<FollowingUser[]> {
+    const response = await this.fetchPublicProfile(username);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Substack profile of ${username}: ${response.status}`);
+    }
+
+    return this.parsePublicProfile(await response.json());
+  }
+
+  public async isUserExists(username: string): Promise<boolean> {
+    if (!SubstackStrategy.HANDLE_PATTERN.test(username)) return false;
+
+    const response = await this.fetchPublicProfile(username);
+    return response.ok;
+  }
+
+  /**
+   * Creators on Substack are publications, whose feed carries the
+   * description and the publication dates. Follower counts are not public.
+   */
+  public async getProfile(username: string): Promise<CreatorProfileDetails> {
+    const publication = username.toLowerCase();
+    if (!SubstackStrategy.PUBLICATION_PATTERN.test(publication)) {
+      throw new Error(`Invalid Substack publication: ${username}`);
+    }
+
+    const response = await fetch(`https://${publication}${SubstackStrategy.FEED_URL_SUFFIX}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Substack feed of ${username}: ${response.status}`);
+    }
+
+    return this.parseFeed(await response.text());
+  }
+
+  public parsePublicProfile(json: unknown): FollowingUser[] {
+    const followings = new Map<string, FollowingUser>();
+
+    ((json as SubstackPublicProfile)?.subscriptions || []).forEach(({ publication }) => {
+      const subdomain = publication?.subdomain?.toLowerCase();
+      if (!subdomain || !SubstackStrategy.PUBLICATION_PATTERN.test(subdomain)) return;
+      if (followings.has(subdomain)) return;
+
+      followings.set(subdomain, {
+        fullName: publication!.name?.trim() || subdomain,
+        username: subdomain,
+        profileUrl: publication!.custom_domain
+          ? new URL(`https://${publication!.custom_domain}`).toString()
+          : `https://${subdomain}.substack.com/`,
+        profilePictureUrl: publication!.logo_url || undefined,
+      });
+    });
+
+    return [...followings.values()];
+  }
+
+  public parseFeed(xml: string): CreatorProfileDetails {
+    const channel = (new XMLParser().parse(xml) as SubstackFeed).rss?.channel;
+    const items = channel?.item;
+
+    return {
+      bio: channel?.description?.trim() || undefined,
+      publishedDates: (Array.isArray(items) ? items : items ? [items] : [])
+        .map((item) => new Date(item.pubDate || ""))
+        .filter((date) => !isNaN(date.getTime())),
+    };
+  }
+
+  private fetchPublicProfile(username: string): Promise<Response> {
+    return fetch(
+      new URL(
+        `${encodeURIComponent(username)}/public_profile`,
+        SubstackStrategy.PROFILE_API_BASE,
+      ),
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+
+import { XStrategy } from "./xStrategy";
+
+const followingHtml = readFileSync(join(__dirname, "__fixtures__", "x-following.html"), "utf8");
+
+describe("XStrategy", () => {
+  const strategy = new XStrategy();
+
+  describe("parseFollowingsHtml", () => {
+    it("parses user cells", () => {
+      expect(strategy.parseFollowingsHtml(followingHtml)).toEqual([
+        {
+          fullName: "Pieter Levels",
+          username: "levelsio",
+          profileUrl: "https://x.com/levelsio",
+          profilePictureUrl: "https://pbs.twimg.com/profile_images/1589756412078555136/YlXMBzhd_bigger.jpg",
+        },
+        {
+          fullName: "nobody_pic",
+          username: "nobody_pic",
+          profileUrl: "https://x.com/nobody_pic",
+          profilePictureUrl: "https://abs.twimg.com/sticky/default_profile_images/default_profile_bigger.png",
+        },
+      ]);
+    });
+
+    it("ignores navigation links outside user cells", () => {
+      const usernames = strategy.parseFollowingsHtml(followingHtml).map((following) => following.username);
+
+      expect(usernames).not.toContain("janedoe");
+    });
+  });
+
+  describe("username validation", () => {
+    it("reports unknown handles without a request", async () => {
+      expect(await strategy.isUserExists("//evil.com")).toBe(false);
+    });
+
+    it("refuses to scrape invalid handles", async () => {
+      await expect(strategy.getFollowings("//evil.com")).rejects.toThrow("Invalid X username");
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { load } from "cheerio";
+
+import { scrollUntilEnd, withPage } from "../utils/browser";
+import {
+  CreatorProfileDetails,
+  FollowingFetcherStrategy,
+  FollowingUser,
+  GetFollowingsOptions,
+} from "./followingFetcherFactory";
+import { hasReachedKnownFollowings } from "./knownFollowings";
+
+export class XStrategy implements FollowingFetcherStrategy {
+  private static readonly PROFILE_URL_BASE = "https://x.com/";
+  private static readonly OEMBED_URL = "https://publish.twitter.com/oembed";
+  // Handles end up in the profile URL, so anything outside X's charset
+  // (e.g. `//host`) would point the browser elsewhere.
+  private static readonly USERNAME_PATTERN = /^[A-Za-z0-9_]{1,15}$/;
+
+  public getFollowings = async (
+    username: string,
+    options: GetFollowingsOptions = {},
+  ): Promise<FollowingUser[]> => {
+    this.assertValidUsername(username);
+
+    return withPage(async (page) => {
+      const followings = new Map<string, FollowingUser>();
+      const collect = async () => {
+        this.parseFollowingsHtml(await page.content()).forEach((following) =>
+          followings.set(following.username.toLowerCase(), following),
+        );
+        await options.onProgress?.(followings.size);
+
+        return !hasReachedKnownFollowings([...followings.values()], options.knownUsernames);
+      };
+
+      await page.goto(
+        new URL(`${username}/following`, XStrategy.PROFILE_URL_BASE).toString(),
+        { waitUntil: "networkidle2", timeout: 20000 },
+      );
+      await collect();
+
+      // The list is virtualized and drops off-screen cells, so collect
+      // after every scroll instead of parsing the final page once.
+      await scrollUntilEnd(
+        page,
+        { maxDurationMs: 55000, maxScrolls: 1000, delayMs: 600 },
+        collect,
+      );
+
+      return [...followings.values()];
+    });
+  };
+
+  public async isUserExists(username: string): Promise<boolean> {
+    if (!XStrategy.USERNAME_PATTERN.test(username)) {
+      return false;
+    }
+
+    const url = new URL(XStrategy.OEMBED_URL);
+    url.searchParams.set("url", `https://twitter.com/${username}`);
+
+    const response = await fetch(url);
+    return response.ok;
+  }
+
+  /**
+   * X exposes no public profile or timeline data without a login, so the
+   * publication dates are taken from the content scraper instead.
+   */
+  public async getProfile(): Promise<CreatorProfileDetails> {
+    return {};
+  }
+
+  private assertValidUsername(username: string): void {
+    if (!XStrategy.USERNAME_PATTERN.test(username)) {
+      throw new Error(`Invalid X username: ${username}`);
+    }
+  }
+
+  public parseFollowingsHtml(html: string): FollowingUser[] {
+    const $ = load(html);
+    const followings = new Array<FollowingUser>();
+
+    $('[data-testid="UserCell"]').each((_, cell) => {
+      const $cell = $(cell);
+      const href = $cell
+        .find('a[role="link"][href^="/"]')
+        .map((_, link) => $(link).attr("href"))
+        .get()
+        .find((path) => /^\/[A-Za-z0-9_]+$/.test(path));
+
+      if (!href) return;
+
+      const username = href.substring(1);
+      const fullName = $cell
+        .find(`a[href="${href}"] span`)
+        .map((_, span) => $(span).text().trim())
+        .get()
+        .find((text) => text !== "" && !text.startsWith("@"));
+      const profilePictureUrl = $cell.find('img[src*="profile_images"]').attr("src");
+
+      followings.push({
+        fullName: fullName || username,
+        username,
+        profileUrl: new URL(username, XStrategy.PROFILE_URL_BASE).toString(),
+        profilePictureUrl,
+      });
+    });
+
+    return followings;
+  }
+}
@@ -0,0 +1,135 @@
+import { getEmailAnalyticsTimeSeries } from "../utils/email-analytics";
+import { getCaller } from "../utils/authorization";
+import {
+    ANALYTICS_PERIODS,
+    InvalidAnalyticsRangeError,
+    isGranularityAllowed,
+    resolveAnalyticsRange,
+} from "../utils/analytics-period";
+import { BUCKET_EXPORT_COLUMNS, EXPORT_CONTENT_TYPES, formatExport } from "../utils/analytics-export";
+import { startExportJob } from "../utils/analytics-export-jobs";
+import { APIGatewayProxyHandler } from "aws-lambda";
+import { z } from "zod";
+
+const CORS_HEADERS = {
+    "Access-Control-Allow-Origin": process.env.WEBSITE_URL || "*",
+    "Access-Control-Allow-Headers": "Content-Type,Authorization",
+    "Access-Control-Allow-Methods": "GET,OPTIONS",
+    "Access-Control-Expose-Headers": "Content-Disposition,X-Export-Row-Count",
+};
+
+const querySchema = z.object({
+    startDate: z.string().optional(),
+    endDate: z.string().optional(),
+    period: z.enum(ANALYTICS_PERIODS).optional(),
+    userId: z.uuid().optional(),
+    format: z.enum(["csv", "ndjson"]).default("csv"),
+    // `rows` exports the raw `email_analytics` rows, `buckets` the time series.
+    dataset: z.enum(["rows", "buckets"]).default("rows"),
+    granularity: z.enum(["hour", "day", "week"]).default("day"),
+});
+
+function formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Exports the analytics of a period as CSV or NDJSON, with the same period
+ * parsing and scoping as `/analytics/emails`. The time series is small and
+ * returned directly. The raw rows have no upper bound, so they are written
+ * to S3 by a background job that `/analytics/emails/exports/{id}` reports on.
+ */
+export const handler: APIGatewayProxyHandler = async (event) => {
+    const caller = getCaller(event);
+    if (!caller) {
+        return {
+            statusCode: 401,
+            headers: CORS_HEADERS,
+            body: JSON.stringify({ error: "Unauthorized" }),
+        };
+    }
+
+    try {
+        const queryParams = querySchema.parse(event.queryStringParameters || {});
+
+        if (caller.role !== "admin" && queryParams.userId && queryParams.userId !== caller.userId) {
+            return {
+                statusCode: 403,
+                headers: CORS_HEADERS,
+                body: JSON.stringify({ error: "Only admins can view analytics of other users" }),
+            };
+        }
+        const scopeUserId = caller.role === "admin" ? queryParams.userId : caller.userId;
+
+        const range = resolveAnalyticsRange(queryParams);
+        const { startDate, endDate } = range;
+        const { format, dataset, granularity } = queryParams;
+
+        if (dataset === "rows") {
+            const job = await startExportJob({
+                requestedBy: caller.userId,
+                userId: scopeUserId,
+                format,
+                startDate,
+                endDate,
+            });
+
+            return {
+                statusCode: 202,
+                headers: CORS_HEADERS,
+                body: JSON.stringify({
+                    ...job,
+                    jobUrl: `/analytics/emails/exports/${job.id}`,
+                }),
+            };
+        }
+
+        if (!isGranularityAllowed(range, granularity)) {
+            return {
+                statusCode: 400,
+                headers: CORS_HEADERS,
+                body: JSON.stringify({ error: "Hourly granularity is limited to ranges of 31 days" }),
+            };
+        }
+
+        const buckets = await getEmailAnalyticsTimeSeries(startDate, endDate, granularity, scopeUserId);
+        const filename = `email-analytics-${dataset}-${formatDate(startDate)}-${formatDate(endDate)}.${format}`;
+
+        return {
+            statusCode: 200,
+            headers: {
+                ...CORS_HEADERS,
+                "Content-Type": EXPORT_CONTENT_TYPES[format],
+                "Content-Disposition": `attachment; filename="${filename}"`,
+                "Cache-Control": "no-store",
+                "X-Export-Row-Count": String(buckets.length),
+            },
+            body: formatExport(format, BUCKET_EXPORT_COLUMNS, buckets),
+        };
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return {
+                statusCode: 400,
+                headers: CORS_HEADERS,
+                body: JSON.stringify({
+                    error: "Invalid query parameters",
+                    details: error.issues,
+                }),
+            };
+        }
+        if (error instanceof InvalidAnalyticsRangeError) {
+            return {
+                statusCode: 400,
+                headers: CORS_HEADERS,
+                body: JSON.stringify({ error: error.message }),
+            };
+        }
+
+        console.error("Error exporting email analytics:", error);
+        return {
+            statusCode: 500,
+            headers: CORS_HEADERS,
+            body: JSON.stringify({ error: "Internal server error" }),
+        };
+    }
+};
@@ -1,23 +1,30 @@
 import {
     ContentFetcherStrategyFactory,
-    ContentItem,
+    ContentFetcherStrategy,
     PlatformKeys,
-    SinceDate,
 } from "../contentFetcherStrategies/contentStrategyFactory";
+import { createTimeWindow, NAMED_WINDOWS, resolveNamedWindow, TimeWindow } from "../utils/time-window";
 import { Handler } from "aws-lambda";
-import { Redis } from "@upstash/redis";
+import { getCachedContents } from "../utils/contents";
+import { CacheLoadTimeoutError } from "../utils/swr-cache";
 import { z } from "zod/v4-mini";
 
-const redis = new Redis({
-    url: process.env.UPSTASH_REDIS_REST_URL,
-    token: process.env.UPSTASH_REDIS_REST_TOKEN,
-});
-
 const schema = z.object({
-    platformName: z.enum(["MEDIUM", "X", "INSTAGRAM"]),
+    platformName: z.enum(["MEDIUM", "SUBSTACK", "FEED", "X", "INSTAGRAM"]),
     username: z.string(),
 });
 
+// Leaves room within the function timeout to answer when another request is
+// still fetching the same contents.
+const CONTENTS_WAIT_TIMEOUT_MS = 20 * 1000;
+
+// `since` picks a named window; `from`/`to` select an explicit one instead.
+const querySchema = z.object({
+    since: z.optional(z.enum(NAMED_WINDOWS)),
+    from: z.optional(z.iso.datetime({ offset: true })),
+    to: z.optional(z.iso.datetime({ offset: true })),
+});
+
 type FetchContentsEvent = {
     pathParameters: {
         platformName: string;
@@ -25,6 +32,8 @@ type FetchContentsEvent = {
     };
     queryStringParameters?: {
         since?: string;
+        from?: string;
+        to?: string;
     };
 };
 
@@ -38,31 +47,64 @@ export const handler: Handler<FetchContentsEvent> = async (event) => {
     }
 
     const { platformName, username } = event.pathParameters as { platformName: PlatformKeys, username: string };
-    const since = event.queryStringParameters?.since as SinceDate || "all";
 
-    const cachedContents = await redis.get<{ contents: ContentItem[], fetchedAt: Date }>(
-        `contents:${platformName}:${username}:${since}`
-    );
-    if (cachedContents) {
-        const { contents, fetchedAt } = cachedContents;
+    const query = await querySchema.safeParseAsync(event.queryStringParameters || {});
+    if (!query.success) {
         return {
-            statusCode: 200,
-            body: JSON.stringify({ contents, fetchedAt })
+            statusCode: 400,
+            body: JSON.stringify({ error: query.error.message })
+        };
+    }
+
+    let window: TimeWindow;
+    try {
+        const { since, from, to } = query.data;
+        if (to && !from) {
+            throw new Error("`to` requires `from`");
+        }
+        window = from
+            ? createTimeWindow(from, to)
+            : resolveNamedWindow(since || "all_time");
+    } catch (err) {
+        return {
+            statusCode: 400,
+            body: JSON.stringify({ error: err instanceof Error ? err.message : "Invalid time window" }),
         };
     }
 
-    const fetchingStrategy = ContentFetcherStrategyFactory.getStrategy(platformName);
-    const contents = await fetchingStrategy.fetchContent(username, since);
+    let fetchingStrategy: ContentFetcherStrategy;
+    try {
+        fetchingStrategy = ContentFetcherStrategyFactory.getStrategy(platformName);
+    } catch (err) {
+        return {
+            statusCode: 400,
+            body: JSON.stringify({ error: err instanceof Error ? err.message : "Unsupported platform" }),
+        };
+    }
 
-    const fetchedAt = new Date();
-    await redis.set(
-        `contents:${platformName}:${username}:${since}`,
-        { contents, fetchedAt },
-        { ex: 24 * 60 * 60 },
-    );
+    try {
+        const { contents, fetchedAt } = await getCachedContents(fetchingStrategy, platformName, username, window, {
+            waitTimeoutMs: CONTENTS_WAIT_TIMEOUT_MS,
+        });
 
-    return {
-        statusCode: 200,
-        body: JSON.stringify({ contents, fetchedAt }),
-    };
+        return {
+            statusCode: 200,
+            body: JSON.stringify({ contents, fetchedAt }),
+        };
+    } catch (err) {
+        // Another request is still fetching; its result is cached shortly.
+        if (err instanceof CacheLoadTimeoutError) {
+            return {
+                statusCode: 503,
+                headers: { "Retry-After": "10" },
+                body: JSON.stringify({ error: "Contents are being fetched, retry shortly" }),
+            };
+        }
+
+        console.error(`Error fetching contents of ${username} on ${platformName}:`, err);
+        return {
+            statusCode: 500,
+            body: JSON.stringify({ error: "Failed to fetch contents" }),
+        };
+    }
 };
\ No newline at end of file
@@ -1,84 +1,34 @@
 import {
   FollowingFetcherStrategyFactory,
-  CachedFollowingsDTO,
-  FollowingUser,
+  FollowingFetcherStrategy,
 } from "../followingFetcherStrategies/followingFetcherFactory";
-import { APIGatewayProxyHandler } from "aws-lambda";
-import { Redis } from "@upstash/redis";
-import { Search } from "@upstash/search";
+import {
+  getCachedFollowings,
+  InvalidCursorError,
+  paginateFollowings,
+  revalidateFollowings,
+  searchFollowings,
+} from "../utils/followings";
+import { FollowingJob, startFollowingJob } from "../utils/following-jobs";
+import { getCachedCreatorProfiles } from "../utils/creator-profiles";
+import { APIGatewayProxyHandler, APIGatewayProxyResult } from "aws-lambda";
 import { z } from "zod/v4-mini";
 
-const redis = new Redis({
-  url: process.env.UPSTASH_REDIS_REST_URL,
-  token: process.env.UPSTASH_REDIS_REST_TOKEN,
-});
-
-const searchClient = new Search({
-  url: process.env.UPSTASH_SEARCH_REST_URL!,
-  token: process.env.UPSTASH_SEARCH_REST_TOKEN!,
-});
-
-type FollowingDocument = {
-  fullName: string;
-  username: string;
-  profileUrl: string;
-  profilePictureUrl?: string;
-  platformName: string;
-  parentUsername: string;
-};
-
-const index = searchClient.index<FollowingDocument>("followings");
-
 const schema = z.object({
-  platformName: z.enum(["MEDIUM", "X", "INSTAGRAM"]),
+  platformName: z.enum(["MEDIUM", "SUBSTACK", "X", "INSTAGRAM"]),
   username: z.string(),
 });
 
-const FOLLOWINGS_KEY_PREFIX = `followings:`;
-
-const storeFollowingsForSearch = async (
-  platformName: string,
-  username: string,
-  followings: FollowingUser[],
-) => {
-  const documents = followings.map((following) => ({
-    id: `${platformName}:${username}:${following.username}`,
-    content: {
-      fullName: following.fullName,
-      username: following.username,
-      profileUrl: following.profileUrl,
-      profilePictureUrl: following.profilePictureUrl || "",
-      platformName,
-      parentUsername: username,
-    },
-  }));
-
-  await index.upsert(documents);
-};
-
-const searchFollowings = async (
-  platformName: string,
-  username: string,
-  searchQuery: string,
-): Promise<FollowingUser[]> => {
-    const results = await index.search({
-      query: searchQuery,
-      filter: {
-        AND: [
-          { platformName: { equals: platformName } },
-          { parentUsername: { equals: username } },
-        ],
-      },
-      limit: 1000,
-    });
-
-  return results.map((doc) => ({
-      fullName: doc.content.fullName,
-      username: doc.content.username,
-      profileUrl: doc.content.profileUrl,
-      profilePictureUrl: doc.content.profilePictureUrl || undefined,
-  }));
-};
+const querySchema = z.object({
+  search: z.optional(z.string()),
+  limit: z._default(z.coerce.number().check(z.int(), z.minimum(1), z.maximum(200)), 50),
+  cursor: z.optional(z.string()),
+  sort: z.optional(z.enum(["name", "first_seen"])),
+  order: z.optional(z.enum(["asc", "desc"])),
+  hasProfilePicture: z.optional(z.stringbool()),
+  publishedWithinDays: z.optional(z.coerce.number().check(z.int(), z.minimum(1), z.maximum(365))),
+  includeProfiles: z.optional(z.stringbool()),
+});
 
 const CORS_HEADERS = {
   "Access-Control-Allow-Origin": process.env.WEBSITE_URL || "*",
@@ -87,6 +37,43 @@ const CORS_HEADERS = {
   "Access-Control-Allow-Headers": "Content-Type,Authorization",
 };
 
+/**
+ * A scrape can take close to a minute, longer than API Gateway waits, so a
+ * cache miss starts a background job and the client polls its status.
+ */
+const startScrape = async (
+  platformName: string,
+  username: string,
+): Promise<APIGatewayProxyResult> => {
+  let job: FollowingJob;
+  try {
+    job = await startFollowingJob(platformName, username);
+  } catch (err) {
+    return {
+      statusCode: 500,
+      headers: CORS_HEADERS,
+      body: JSON.stringify({
+        error: "internal_error",
+        message: err instanceof Error ? err.message : "Unknown error",
+      }),
+    };
+  }
+
+  return {
+    statusCode: 202,
+    headers: {
+      ...CORS_HEADERS,
+      Location: `/followings/jobs/${job.id}`,
+    },
+    body: JSON.stringify({
+      jobId: job.id,
+      status: job.status,
+      loadedCount: job.loadedCount,
+      statusUrl: `/followings/jobs/${job.id}`,
+    }),
+  };
+};
+
 export const handler: APIGatewayProxyHandler = async (event) => {
   const { success, error: validationError } = await schema.safeParseAsync(event.pathParameters);
   if (!success) {
@@ -98,10 +85,29 @@ export const handler: APIGatewayProxyHandler = async (event) => {
   }
 
   const { platformName, username } = event.pathParameters as { platformName: string, username: string };
-  const searchQuery = event.queryStringParameters?.search?.trim();
 
-  const fetchingStrategy = FollowingFetcherStrategyFactory.getStrategy(platformName);
-  
+  const query = await querySchema.safeParseAsync(event.queryStringParameters || {});
+  if (!query.success) {
+    return {
+      statusCode: 400,
+      headers: CORS_HEADERS,
+      body: JSON.stringify({ error: query.error.message }),
+    };
+  }
+  const { search, includeProfiles, ...pageQuery } = query.data;
+  const searchQuery = search?.trim();
+
+  let fetchingStrategy: FollowingFetcherStrategy;
+  try {
+    fetchingStrategy = FollowingFetcherStrategyFactory.getStrategy(platformName);
+  } catch (err) {
+    return {
+      statusCode: 400,
+      headers: CORS_HEADERS,
+      body: JSON.stringify({ error: err instanceof Error ? err.message : "Unsupported platform" }),
+    };
+  }
+
   const isUserExists = await fetchingStrategy.isUserExists(username);
   if (!isUserExists) {
     return {
@@ -111,98 +117,65 @@ export const handler: APIGatewayProxyHandler = async (event) => {
     }
   }
 
-  if (searchQuery) {
-    const cachedFollowings = await redis.get<CachedFollowingsDTO>(`${FOLLOWINGS_KEY_PREFIX}${platformName}:${username}`);
-    
-    if (cachedFollowings) {
-      const searchResults = await searchFollowings(platformName, username, searchQuery);
-      if (searchResults.length > 0 || cachedFollowings.fetchedAt) {
-        return {
-          statusCode: 200,
-          headers: CORS_HEADERS,
-          body: JSON.stringify({
-            followings: searchResults,
-            fetchedAt: cachedFollowings.fetchedAt,
-          }),
-        };
-      }
-    }
-    
-    try {
-      const followings = await fetchingStrategy.getFollowings(username);
-      const fetchedAt = new Date();
-      
-      await redis.set<CachedFollowingsDTO>(
-        `${FOLLOWINGS_KEY_PREFIX}${platformName}:${username}`,
-        { followings, fetchedAt },
-        { ex: 24 * 60 * 60 },
-      );
-      
-      await storeFollowingsForSearch(platformName, username, followings);
-      
-      const searchResults = await searchFollowings(platformName, username, searchQuery);
+  const cachedFollowings = await getCachedFollowings(platformName, username);
+  if (!cachedFollowings) {
+    return startScrape(platformName, username);
+  }
 
-      return {
-        statusCode: 200,
-        headers: CORS_HEADERS,
-        body: JSON.stringify({
-          followings: searchResults,
-          fetchedAt,
-        }),
-      };
+  // A stale list is still served; at most one request per list starts the
+  // job that refreshes it.
+  if (cachedFollowings.stale) {
+    try {
+      await revalidateFollowings(platformName, username, async () => {
+        await startFollowingJob(platformName, username);
+      });
     } catch (err) {
-      return {
-        statusCode: 500,
-        headers: CORS_HEADERS,
-        body: JSON.stringify({
-          error: "internal_error",
-          message: err instanceof Error ? err.message : "Unknown error",
-        }),
-      };
+      console.error(`Failed to refresh followings of ${username}:`, err);
     }
   }
 
-  const cachedFollowings = await redis.get<CachedFollowingsDTO>(`${FOLLOWINGS_KEY_PREFIX}${platformName}:${username}`);
-  if (cachedFollowings) {
-    const { followings, fetchedAt } = cachedFollowings;
-    return {
-      statusCode: 200,
-      headers: CORS_HEADERS,
-      body: JSON.stringify({
-        followings,
-        fetchedAt,
-      }),
-    };
+  let followings = cachedFollowings.followings;
+  if (searchQuery) {
+    // Search hits lack the sync metadata, so they are matched back to the
+    // cached entries to keep first-seen sorting working.
+    const cachedByUsername = new Map(
+      followings.map((following) => [following.username.toLowerCase(), following]),
+    );
+    const searchResults = await searchFollowings(platformName, username, searchQuery, pageQuery.hasProfilePicture);
+    followings = searchResults.map(
+      (result) => cachedByUsername.get(result.username.toLowerCase()) || result,
+    );
   }
 
-  try { 
-    const followings = await fetchingStrategy.getFollowings(username);
+  try {
+    const page = await paginateFollowings(platformName, followings, cachedFollowings.fetchedAt, pageQuery);
 
-    const fetchedAt = new Date();
-    await redis.set<CachedFollowingsDTO>(
-      `${FOLLOWINGS_KEY_PREFIX}${platformName}:${username}`,
-      { followings, fetchedAt },
-      { ex: 24 * 60 * 60 },
-    );
-
-    await storeFollowingsForSearch(platformName, username, followings);
+    // Only already enriched profiles are attached; enriching a whole page
+    // here would hit the platform once per creator.
+    if (includeProfiles) {
+      const profiles = await getCachedCreatorProfiles(
+        platformName,
+        page.followings.map((following) => following.username),
+      );
+      page.followings = page.followings.map((following) => ({
+        ...following,
+        profile: profiles.get(following.username.toLowerCase()) || null,
+      }));
+    }
 
     return {
       statusCode: 200,
       headers: CORS_HEADERS,
-      body: JSON.stringify({
-        followings,
-        fetchedAt,
-      }),
+      body: JSON.stringify({ ...page, stale: cachedFollowings.stale }),
     };
   } catch (err) {
-    return {
-      statusCode: 500,
-      headers: CORS_HEADERS,
-      body: JSON.stringify({
-        error: "internal_error",
-        message: err instanceof Error ? err.message : "Unknown error",
-      }),
-    };
+    if (err instanceof InvalidCursorError) {
+      return {
+        statusCode: 400,
+        headers: CORS_HEADERS,
+        body: JSON.stringify({ error: err.message }),
+      };
+    }
+    throw err;
   }
 };
@@ -0,0 +1,64 @@
+import { enrichCreatorProfiles } from "../utils/creator-profiles";
+import { APIGatewayProxyHandler } from "aws-lambda";
+import { z } from "zod";
+
+const CORS_HEADERS = {
+    "Access-Control-Allow-Origin": process.env.WEBSITE_URL || "*",
+    "Access-Control-Allow-Headers": "Content-Type,Authorization",
+    "Access-Control-Allow-Methods": "GET,OPTIONS",
+};
+
+// Every uncached profile costs requests to the platform, so a call is
+// limited to about one page of followings.
+const MAX_USERNAMES = 25;
+
+const pathSchema = z.object({
+    platformName: z.enum(["MEDIUM", "SUBSTACK", "X", "INSTAGRAM"]),
+});
+
+const querySchema = z.object({
+    usernames: z
+        .string()
+        .transform((value) => [...new Set(value.split(",").map((username) => username.trim()).filter(Boolean))])
+        .pipe(z.array(z.string()).min(1).max(MAX_USERNAMES)),
+});
+
+/**
+ * Returns bio, follower count, last publication and posting frequency of
+ * followed creators, enriching the ones that are not cached yet.
+ */
+export const handler: APIGatewayProxyHandler = async (event) => {
+    try {
+        const { platformName } = pathSchema.parse(event.pathParameters || {});
+        const { usernames } = querySchema.parse(event.queryStringParameters || {});
+
+        const profiles = await enrichCreatorProfiles(platformName, usernames);
+
+        return {
+            statusCode: 200,
+            headers: CORS_HEADERS,
+            body: JSON.stringify({
+                profiles: usernames.flatMap((username) => profiles.get(username.toLowerCase()) || []),
+                missing: usernames.filter((username) => !profiles.has(username.toLowerCase())),
+            }),
+        };
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return {
+                statusCode: 400,
+                headers: CORS_HEADERS,
+                body: JSON.stringify({
+                    error: "Invalid request parameters",
+                    details: error.issues,
+                }),
+            };
+        }
+
+        console.error("Error fetching creator profiles:", error);
+        return {
+            statusCode: 500,
+            headers: CORS_HEADERS,
+            body: JSON.stringify({ error: "Internal server error" }),
+        };
+    }
+};
@@ -1,4 +1,12 @@
-import { getEmailAnalyticsStats } from "../utils/email-analytics";
+import { getEmailAnalyticsStats, getEmailAnalyticsTimeSeries } from "../utils/email-analytics";
+import { getCaller } from "../utils/authorization";
+import {
+    ANALYTICS_PERIODS,
+    AnalyticsRange,
+    InvalidAnalyticsRangeError,
+    isGranularityAllowed,
+    resolveAnalyticsRange,
+} from "../utils/analytics-period";
 import { APIGatewayProxyHandler } from "aws-lambda";
 import { z } from "zod";
 
@@ -11,72 +19,67 @@ const CORS_HEADERS = {
 const querySchema = z.object({
     startDate: z.string().optional(),
     endDate: z.string().optional(),
-    period: z.enum(["today", "yesterday", "last_7_days", "last_30_days", "last_90_days", "all_time"]).optional(),
+    period: z.enum(ANALYTICS_PERIODS).optional(),
+    userId: z.uuid().optional(),
+    granularity: z.enum(["hour", "day", "week"]).optional(),
 });
 
-function getPeriodDates(period: string): { startDate: Date; endDate: Date } {
-    const now = new Date();
-    const endDate = new Date();
-    let startDate = new Date();
 
-    switch (period) {
-        case "today":
-            startDate.setHours(0, 0, 0, 0);
-            break;
-        case "yesterday":
-            startDate.setDate(now.getDate() - 1);
-            startDate.setHours(0, 0, 0, 0);
-            endDate.setDate(now.getDate() - 1);
-            endDate.setHours(23, 59, 59, 999);
-            break;
-        case "last_7_days":
-            startDate.setDate(now.getDate() - 7);
-            startDate.setHours(0, 0, 0, 0);
-            break;
-        case "last_30_days":
-            startDate.setDate(now.getDate() - 30);
-            startDate.setHours(0, 0, 0, 0);
-            break;
-        case "last_90_days":
-            startDate.setDate(now.getDate() - 90);
-            startDate.setHours(0, 0, 0, 0);
-            break;
-        case "all_time":
-            startDate = new Date(0);
-            break;
-        default:
-            startDate.setDate(now.getDate() - 7);
-            startDate.setHours(0, 0, 0, 0);
+/**
+ * Admins see global stats, or a single recipient's with `userId`. Everyone
+ * else only sees the stats of the emails sent to themselves.
+ */
+export const handler: APIGatewayProxyHandler = async (event) => {
+    const caller = getCaller(event);
+    if (!caller) {
+        return {
+            statusCode: 401,
+            headers: CORS_HEADERS,
+            body: JSON.stringify({ error: "Unauthorized" }),
+        };
     }
 
-    return { startDate, endDate };
-}
-
-export const handler: APIGatewayProxyHandler = async (event) => {
     try {
         const queryParams = querySchema.parse(event.queryStringParameters || {});
 
-        let startDate: Date;
-        let endDate: Date;
-
-        if (queryParams.startDate && queryParams.endDate) {
-            startDate = new Date(queryParams.startDate);
-            endDate = new Date(queryParams.endDate);
+        if (caller.role !== "admin" && queryParams.userId && queryParams.userId !== caller.userId) {
+            return {
+                statusCode: 403,
+                headers: CORS_HEADERS,
+                body: JSON.stringify({ error: "Only admins can view analytics of other users" }),
+            };
+        }
+        const scopeUserId = caller.role === "admin" ? queryParams.userId : caller.userId;
 
-            if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+        let range: AnalyticsRange;
+        try {
+            range = resolveAnalyticsRange(queryParams);
+        } catch (error) {
+            if (error instanceof InvalidAnalyticsRangeError) {
                 return {
                     statusCode: 400,
                     headers: CORS_HEADERS,
-                    body: JSON.stringify({ error: "Invalid date format. Use ISO 8601 format." }),
+                    body: JSON.stringify({ error: error.message }),
                 };
             }
-        } else {
-            const dates = getPeriodDates(queryParams.period || "last_7_days");
-            startDate = dates.startDate;
-            endDate = dates.endDate;
+            throw error;
+        }
+        const { startDate, endDate } = range;
+
+        if (queryParams.granularity && !isGranularityAllowed(range, queryParams.granularity)) {
+            return {
+                statusCode: 400,
+                headers: CORS_HEADERS,
+                body: JSON.stringify({ error: "Hourly granularity is limited to ranges of 31 days" }),
+            };
         }
 
-        const stats = await getEmailAnalyticsStats(startDate, endDate);
+        const [stats, timeseries] = await Promise.all([
+            getEmailAnalyticsStats(startDate, endDate, scopeUserId),
+            queryParams.granularity
+                ? getEmailAnalyticsTimeSeries(startDate, endDate, queryParams.granularity, scopeUserId)
+                : undefined,
+        ]);
 
         if (!stats) {
             return {
@@ -94,7 +97,9 @@ export const handler: APIGatewayProxyHandler = async (event) => {
                     startDate: startDate.toISOString(),
                     endDate: endDate.toISOString(),
                 },
+                scope: scopeUserId ? { userId: scopeUserId } : "global",
                 stats,
+                ...(timeseries && { granularity: queryParams.granularity, timeseries }),
             }),
         };
     } catch (error) {
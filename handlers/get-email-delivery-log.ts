@@ -0,0 +1,94 @@
+import { getEmailDeliveryLog, InvalidDeliveryLogCursorError } from "../utils/email-analytics";
+import { getCaller } from "../utils/authorization";
+import { ANALYTICS_PERIODS, InvalidAnalyticsRangeError, resolveAnalyticsRange } from "../utils/analytics-period";
+import { APIGatewayProxyHandler } from "aws-lambda";
+import { z } from "zod";
+
+const CORS_HEADERS = {
+    "Access-Control-Allow-Origin": process.env.WEBSITE_URL || "*",
+    "Access-Control-Allow-Headers": "Content-Type,Authorization",
+    "Access-Control-Allow-Methods": "GET,OPTIONS",
+};
+
+const querySchema = z.object({
+    startDate: z.string().optional(),
+    endDate: z.string().optional(),
+    period: z.enum(ANALYTICS_PERIODS).optional(),
+    userId: z.uuid().optional(),
+    email: z.string().min(1).optional(),
+    status: z.enum(["sent", "failed", "skipped", "suppressed"]).optional(),
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+    cursor: z.string().optional(),
+});
+
+/**
+ * Per-recipient delivery log of a period, newest first. Same scoping as
+ * `/analytics/emails`: only admins can look at other users' emails.
+ */
+export const handler: APIGatewayProxyHandler = async (event) => {
+    const caller = getCaller(event);
+    if (!caller) {
+        return {
+            statusCode: 401,
+            headers: CORS_HEADERS,
+            body: JSON.stringify({ error: "Unauthorized" }),
+        };
+    }
+
+    try {
+        const { startDate: start, endDate: end, period, userId, ...logQuery } = querySchema.parse(
+            event.queryStringParameters || {}
+        );
+
+        if (caller.role !== "admin" && userId && userId !== caller.userId) {
+            return {
+                statusCode: 403,
+                headers: CORS_HEADERS,
+                body: JSON.stringify({ error: "Only admins can view analytics of other users" }),
+            };
+        }
+
+        const { startDate, endDate } = resolveAnalyticsRange({ startDate: start, endDate: end, period });
+        const page = await getEmailDeliveryLog(startDate, endDate, {
+            ...logQuery,
+            userId: caller.role === "admin" ? userId : caller.userId,
+        });
+
+        return {
+            statusCode: 200,
+            headers: CORS_HEADERS,
+            body: JSON.stringify({
+                period: {
+                    startDate: startDate.toISOString(),
+                    endDate: endDate.toISOString(),
+                },
+                ...page,
+            }),
+        };
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return {
+                statusCode: 400,
+                headers: CORS_HEADERS,
+                body: JSON.stringify({
+                    error: "Invalid query parameters",
+                    details: error.issues,
+                }),
+            };
+        }
+        if (error instanceof InvalidAnalyticsRangeError || error instanceof InvalidDeliveryLogCursorError) {
+            return {
+                statusCode: 400,
+                headers: CORS_HEADERS,
+                body: JSON.stringify({ error: error.message }),
+            };
+        }
+
+        console.error("Error fetching email delivery log:", error);
+        return {
+            statusCode: 500,
+            headers: CORS_HEADERS,
+            body: JSON.stringify({ error: "Internal server error" }),
+        };
+    }
+};
@@ -0,0 +1,74 @@
+import { getExportDownloadUrl, getExportJob } from "../utils/analytics-export-jobs";
+import { getCaller } from "../utils/authorization";
+import { APIGatewayProxyHandler } from "aws-lambda";
+import { z } from "zod";
+
+const CORS_HEADERS = {
+    "Access-Control-Allow-Origin": process.env.WEBSITE_URL || "*",
+    "Access-Control-Allow-Headers": "Content-Type,Authorization",
+    "Access-Control-Allow-Methods": "GET,OPTIONS",
+};
+
+const pathSchema = z.object({
+    id: z.uuid(),
+});
+
+/**
+ * Reports the progress of an analytics export started by
+ * `/analytics/emails/export`. Once completed, the response carries a
+ * short-lived download link.
+ */
+export const handler: APIGatewayProxyHandler = async (event) => {
+    const caller = getCaller(event);
+    if (!caller) {
+        return {
+            statusCode: 401,
+            headers: CORS_HEADERS,
+            body: JSON.stringify({ error: "Unauthorized" }),
+        };
+    }
+
+    const parsed = pathSchema.safeParse(event.pathParameters || {});
+    if (!parsed.success) {
+        return {
+            statusCode: 400,
+            headers: CORS_HEADERS,
+            body: JSON.stringify({
+                error: "Invalid job id",
+                details: parsed.error.issues,
+            }),
+        };
+    }
+
+    try {
+        const job = await getExportJob(parsed.data.id);
+        // Other users' exports are reported as missing rather than forbidden,
+        // so job ids cannot be probed.
+        if (!job || (caller.role !== "admin" && job.requestedBy !== caller.userId)) {
+            return {
+                statusCode: 404,
+                headers: CORS_HEADERS,
+                body: JSON.stringify({ error: "job not found" }),
+            };
+        }
+
+        return {
+            statusCode: 200,
+            headers: {
+                ...CORS_HEADERS,
+                "Cache-Control": "no-store",
+            },
+            body: JSON.stringify({
+                ...job,
+                downloadUrl: job.status === "completed" ? await getExportDownloadUrl(job) : null,
+            }),
+        };
+    } catch (error) {
+        console.error("Error fetching export job:", error);
+        return {
+            statusCode: 500,
+            headers: CORS_HEADERS,
+            body: JSON.stringify({ error: "Internal server error" }),
+        };
+    }
+};
@@ -0,0 +1,61 @@
+import { getFollowingJob } from "../utils/following-jobs";
+import { APIGatewayProxyHandler } from "aws-lambda";
+import { z } from "zod";
+
+const CORS_HEADERS = {
+    "Access-Control-Allow-Origin": process.env.WEBSITE_URL || "*",
+    "Access-Control-Allow-Headers": "Content-Type,Authorization",
+    "Access-Control-Allow-Methods": "GET,OPTIONS",
+};
+
+const pathSchema = z.object({
+    id: z.uuid(),
+});
+
+/**
+ * Reports the progress of a following scrape started by the followings
+ * endpoint. Once completed, the followings endpoint serves the cached result.
+ */
+export const handler: APIGatewayProxyHandler = async (event) => {
+    const parsed = pathSchema.safeParse(event.pathParameters || {});
+    if (!parsed.success) {
+        return {
+            statusCode: 400,
+            headers: CORS_HEADERS,
+            body: JSON.stringify({
+                error: "Invalid job id",
+                details: parsed.error.issues,
+            }),
+        };
+    }
+
+    try {
+        const job = await getFollowingJob(parsed.data.id);
+        if (!job) {
+            return {
+                statusCode: 404,
+                headers: CORS_HEADERS,
+                body: JSON.stringify({ error: "job not found" }),
+            };
+        }
+
+        return {
+            statusCode: 200,
+            headers: {
+                ...CORS_HEADERS,
+                "Cache-Control": "no-store",
+            },
+            body: JSON.stringify({
+                ...job,
+                followingsUrl: `/followings/platforms/${job.platformName}/users/${encodeURIComponent(job.username)}`,
+            }),
+        };
+    } catch (error) {
+        console.error("Error fetching following job:", error);
+        return {
+            statusCode: 500,
+            headers: CORS_HEADERS,
+            body: JSON.stringify({ error: "Internal server error" }),
+        };
+    }
+};
@@ -0,0 +1,65 @@
+import { getFollowingsDiff } from "../utils/following-sync";
+import { APIGatewayProxyHandler } from "aws-lambda";
+import { z } from "zod";
+
+const CORS_HEADERS = {
+    "Access-Control-Allow-Origin": process.env.WEBSITE_URL || "*",
+    "Access-Control-Allow-Headers": "Content-Type,Authorization",
+    "Access-Control-Allow-Methods": "GET,OPTIONS",
+};
+
+const DEFAULT_DIFF_DAYS = 7;
+
+const pathSchema = z.object({
+    platformName: z.enum(["MEDIUM", "SUBSTACK", "X", "INSTAGRAM"]),
+    username: z.string().min(1),
+});
+
+const querySchema = z.object({
+    since: z.iso.datetime({ offset: true }).optional(),
+});
+
+/**
+ * Returns the creators a user started or stopped following since `since`
+ * (default: the last 7 days), based on the stored following history.
+ */
+export const handler: APIGatewayProxyHandler = async (event) => {
+    try {
+        const { platformName, username } = pathSchema.parse(event.pathParameters || {});
+        const { since } = querySchema.parse(event.queryStringParameters || {});
+
+        const diff = await getFollowingsDiff(
+            platformName,
+            username,
+            since ? new Date(since) : new Date(Date.now() - DEFAULT_DIFF_DAYS * 24 * 60 * 60 * 1000)
+        );
+
+        return {
+            statusCode: 200,
+            headers: CORS_HEADERS,
+            body: JSON.stringify({
+                ...diff,
+                addedCount: diff.added.length,
+                removedCount: diff.removed.length,
+            }),
+        };
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return {
+                statusCode: 400,
+                headers: CORS_HEADERS,
+                body: JSON.stringify({
+                    error: "Invalid request parameters",
+                    details: error.issues,
+                }),
+            };
+        }
+
+        console.error("Error fetching followings diff:", error);
+        return {
+            statusCode: 500,
+            headers: CORS_HEADERS,
+            body: JSON.stringify({ error: "Internal server error" }),
+        };
+    }
+};
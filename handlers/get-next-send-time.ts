@@ -0,0 +1,59 @@
+import { getNextSendTime, isValidTimezone, SEND_TIME_PATTERN } from "../utils/schedule";
+import { APIGatewayProxyHandler } from "aws-lambda";
+import { z } from "zod";
+
+const CORS_HEADERS = {
+    "Access-Control-Allow-Origin": process.env.WEBSITE_URL || "*",
+    "Access-Control-Allow-Headers": "Content-Type,Authorization",
+    "Access-Control-Allow-Methods": "GET,OPTIONS",
+};
+
+const querySchema = z.object({
+    frequency: z.enum(["daily", "weekly", "monthly"]),
+    sendTime: z.string().regex(SEND_TIME_PATTERN, "Use HH:mm format"),
+    timezone: z.string().refine(isValidTimezone, "Invalid IANA timezone"),
+    weekday: z.coerce.number().int().min(0).max(6).optional(),
+    dayOfMonth: z.coerce.number().int().min(1).max(31).optional(),
+    after: z.iso.datetime({ offset: true }).optional(),
+    count: z.coerce.number().int().min(1).max(12).optional(),
+});
+
+export const handler: APIGatewayProxyHandler = async (event) => {
+    try {
+        const { after, count, ...schedule } = querySchema.parse(event.queryStringParameters || {});
+
+        const sendTimes: string[] = [];
+        let cursor = after ? new Date(after) : new Date();
+        for (let i = 0; i < (count || 1); i++) {
+            cursor = getNextSendTime(schedule, cursor);
+            sendTimes.push(cursor.toISOString());
+        }
+
+        return {
+            statusCode: 200,
+            headers: CORS_HEADERS,
+            body: JSON.stringify({
+                nextSendTime: sendTimes[0],
+                sendTimes,
+            }),
+        };
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return {
+                statusCode: 400,
+                headers: CORS_HEADERS,
+                body: JSON.stringify({
+                    error: "Invalid query parameters",
+                    details: error.issues,
+                }),
+            };
+        }
+
+        console.error("Error computing next send time:", error);
+        return {
+            statusCode: 500,
+            headers: CORS_HEADERS,
+            body: JSON.stringify({ error: "Internal server error" }),
+        };
+    }
+};
@@ -0,0 +1,143 @@
+import {
+    createNewsletterPreference,
+    deleteNewsletterPreference,
+    getNewsletterPreference,
+    listNewsletterPreferences,
+    NewsletterPreferenceConflictError,
+    NewsletterPreferenceNotFoundError,
+    updateNewsletterPreference,
+} from "../utils/newsletter-preferences";
+import { isValidTimezone, SEND_TIME_PATTERN } from "../utils/schedule";
+import { APIGatewayProxyEvent, APIGatewayProxyHandler, APIGatewayProxyResult } from "aws-lambda";
+import { z } from "zod";
+
+const CORS_HEADERS = {
+    "Access-Control-Allow-Origin": process.env.WEBSITE_URL || "*",
+    "Access-Control-Allow-Headers": "Content-Type,Authorization",
+    "Access-Control-Allow-Methods": "GET,POST,PATCH,DELETE,OPTIONS",
+};
+
+const MAX_FOLLOWINGS = 500;
+// Feed followings are feed URLs rather than usernames.
+const MAX_FOLLOWING_LENGTH = 2048;
+
+const preferenceFields = {
+    platform: z.enum(["medium", "substack", "feed", "instagram", "x"]),
+    followings: z
+        .array(z.string().trim().min(1).max(MAX_FOLLOWING_LENGTH))
+        .max(MAX_FOLLOWINGS)
+        .transform((followings) => [...new Set(followings)]),
+    frequency: z.enum(["daily", "weekly", "monthly"]),
+    sendTime: z.string().regex(SEND_TIME_PATTERN, "Use HH:mm format"),
+    weekday: z.number().int().min(0).max(6).nullable(),
+    dayOfMonth: z.number().int().min(1).max(31).nullable(),
+    timezone: z.string().refine(isValidTimezone, "Invalid IANA timezone"),
+    language: z.string().refine((language) => {
+        try {
+            return Intl.getCanonicalLocales(language).length === 1;
+        } catch {
+            return false;
+        }
+    }, "Invalid language tag"),
+    enabled: z.boolean(),
+};
+
+const createSchema = z.strictObject({
+    ...preferenceFields,
+    followings: preferenceFields.followings.default([]),
+    weekday: preferenceFields.weekday.default(null),
+    dayOfMonth: preferenceFields.dayOfMonth.default(null),
+    language: preferenceFields.language.default("en"),
+    enabled: preferenceFields.enabled.default(true),
+});
+
+const updateSchema = z.strictObject(preferenceFields).partial().refine(
+    (input) => Object.keys(input).length > 0,
+    "Provide at least one field to update"
+);
+
+const pathSchema = z.object({
+    id: z.uuid(),
+});
+
+class InvalidBodyError extends Error {}
+
+function json(statusCode: number, body?: unknown): APIGatewayProxyResult {
+    return {
+        statusCode,
+        headers: CORS_HEADERS,
+        body: body === undefined ? "" : JSON.stringify(body),
+    };
+}
+
+// Only `image/*` is a binary media type, so JSON bodies arrive as text; the
+// base64 branch is a defensive check in case that list grows.
+function parseJsonBody(event: APIGatewayProxyEvent): unknown {
+    if (!event.body) {
+        throw new InvalidBodyError("Request body is required");
+    }
+
+    try {
+        return JSON.parse(event.isBase64Encoded ? Buffer.from(event.body, "base64").toString("utf-8") : event.body);
+    } catch {
+        throw new InvalidBodyError("Request body must be valid JSON");
+    }
+}
+
+async function route(event: APIGatewayProxyEvent, userId: string): Promise<APIGatewayProxyResult> {
+    if (!event.pathParameters?.id) {
+        switch (event.httpMethod) {
+            case "GET":
+                return json(200, { preferences: await listNewsletterPreferences(userId) });
+            case "POST":
+                return json(201, await createNewsletterPreference(userId, createSchema.parse(parseJsonBody(event))));
+        }
+        return json(405, { error: "Method not allowed" });
+    }
+
+    const { id } = pathSchema.parse(event.pathParameters);
+    switch (event.httpMethod) {
+        case "GET":
+            return json(200, await getNewsletterPreference(userId, id));
+        case "PATCH":
+            return json(200, await updateNewsletterPreference(userId, id, updateSchema.parse(parseJsonBody(event))));
+        case "DELETE":
+            await deleteNewsletterPreference(userId, id);
+            return json(204);
+    }
+    return json(405, { error: "Method not allowed" });
+}
+
+/**
+ * CRUD for the caller's newsletter preferences. The caller is always the
+ * authorizer's principal, so preferences of other users are never reachable.
+ */
+export const handler: APIGatewayProxyHandler = async (event) => {
+    const userId = event.requestContext.authorizer?.principalId;
+    if (!userId) {
+        return json(401, { error: "Unauthorized" });
+    }
+
+    try {
+        return await route(event, userId);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return json(400, {
+                error: "Invalid request parameters",
+                details: error.issues,
+            });
+        }
+        if (error instanceof InvalidBodyError) {
+            return json(400, { error: error.message });
+        }
+        if (error instanceof NewsletterPreferenceNotFoundError) {
+            return json(404, { error: error.message });
+        }
+        if (error instanceof NewsletterPreferenceConflictError) {
+            return json(409, { error: error.message });
+        }
+
+        console.error("Error handling newsletter preferences:", error);
+        return json(500, { error: "Internal server error" });
+    }
+};
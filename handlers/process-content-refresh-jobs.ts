@@ -0,0 +1,7 @@
+import { processContentRefreshJob, ContentRefreshJob, MAX_CONTENT_REFRESH_JOB_ATTEMPTS } from "../utils/contents";
+import { processSqsEvent } from "../utils/job-queue";
+import { SQSHandler } from "aws-lambda";
+
+export const handler: SQSHandler = async (event) => {
+    return processSqsEvent<ContentRefreshJob>(event, processContentRefreshJob, MAX_CONTENT_REFRESH_JOB_ATTEMPTS);
+};
@@ -0,0 +1,7 @@
+import { processDigestJob, DigestJob, MAX_JOB_ATTEMPTS } from "../utils/newsletter-pipeline";
+import { processSqsEvent } from "../utils/job-queue";
+import { SQSHandler } from "aws-lambda";
+
+export const handler: SQSHandler = async (event) => {
+    return processSqsEvent<DigestJob>(event, processDigestJob, MAX_JOB_ATTEMPTS);
+};
@@ -0,0 +1,7 @@
+import { processExportWriteJob, ExportWriteJob, MAX_EXPORT_JOB_ATTEMPTS } from "../utils/analytics-export-jobs";
+import { processSqsEvent } from "../utils/job-queue";
+import { SQSHandler } from "aws-lambda";
+
+export const handler: SQSHandler = async (event) => {
+    return processSqsEvent<ExportWriteJob>(event, processExportWriteJob, MAX_EXPORT_JOB_ATTEMPTS);
+};
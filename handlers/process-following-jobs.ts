@@ -0,0 +1,7 @@
+import { processFollowingScrapeJob, FollowingScrapeJob, MAX_FOLLOWING_JOB_ATTEMPTS } from "../utils/following-jobs";
+import { processSqsEvent } from "../utils/job-queue";
+import { SQSHandler } from "aws-lambda";
+
+export const handler: SQSHandler = async (event) => {
+    return processSqsEvent<FollowingScrapeJob>(event, processFollowingScrapeJob, MAX_FOLLOWING_JOB_ATTEMPTS);
+};
@@ -0,0 +1,117 @@
+import { creatorKey, searchContents } from "../utils/content-search";
+import { createTimeWindow, NAMED_WINDOWS, resolveNamedWindow, TimeWindow } from "../utils/time-window";
+import { createClient } from "@supabase/supabase-js";
+import { APIGatewayProxyHandler } from "aws-lambda";
+import { z } from "zod";
+
+const supabase = createClient(
+    process.env.SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+        auth: {
+            autoRefreshToken: false,
+            persistSession: false,
+        },
+    }
+);
+
+const CORS_HEADERS = {
+    "Access-Control-Allow-Origin": process.env.WEBSITE_URL || "*",
+    "Access-Control-Allow-Headers": "Content-Type,Authorization",
+    "Access-Control-Allow-Methods": "GET,OPTIONS",
+};
+
+const querySchema = z.object({
+    q: z.string().trim().min(1).max(200),
+    platform: z.enum(["MEDIUM", "SUBSTACK", "FEED", "X", "INSTAGRAM"]).optional(),
+    since: z.enum(NAMED_WINDOWS).optional(),
+    from: z.iso.datetime({ offset: true }).optional(),
+    to: z.iso.datetime({ offset: true }).optional(),
+    limit: z.coerce.number().int().min(1).max(50).default(20),
+}).refine((query) => !query.to || query.from, {
+    message: "`to` requires `from`",
+    path: ["to"],
+});
+
+async function getFollowedCreatorKeys(userId: string): Promise<string[]> {
+    const { data, error } = await supabase
+        .from("newsletter_preferences_view")
+        .select("platform, followings")
+        .eq("user_id", userId)
+        .overrideTypes<Array<{ platform: string; followings: string[] | null }>, { merge: false }>();
+
+    if (error) {
+        throw new Error(`Failed to fetch followed creators: ${error.message}`);
+    }
+
+    const keys = new Set<string>();
+    for (const preference of data || []) {
+        for (const username of preference.followings || []) {
+            if (username.trim()) {
+                keys.add(creatorKey(preference.platform, username.trim()));
+            }
+        }
+    }
+
+    return [...keys];
+}
+
+/**
+ * Full-text search over the fetched contents of the creators the caller
+ * follows. Only contents fetched at least once are indexed, so creators that
+ * were never fetched do not show up yet.
+ */
+export const handler: APIGatewayProxyHandler = async (event) => {
+    const userId = event.requestContext.authorizer?.principalId;
+    if (!userId) {
+        return {
+            statusCode: 401,
+            headers: CORS_HEADERS,
+            body: JSON.stringify({ error: "Unauthorized" }),
+        };
+    }
+
+    try {
+        const { q, platform, since, from, to, limit } = querySchema.parse(event.queryStringParameters || {});
+
+        let window: TimeWindow | undefined;
+        try {
+            window = from
+                ? createTimeWindow(from, to)
+                : since ? resolveNamedWindow(since) : undefined;
+        } catch (err) {
+            return {
+                statusCode: 400,
+                headers: CORS_HEADERS,
+                body: JSON.stringify({ error: err instanceof Error ? err.message : "Invalid time window" }),
+            };
+        }
+
+        const creatorKeys = await getFollowedCreatorKeys(userId);
+        const results = await searchContents(creatorKeys, { query: q, platform, window, limit });
+
+        return {
+            statusCode: 200,
+            headers: CORS_HEADERS,
+            body: JSON.stringify({ results, count: results.length }),
+        };
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return {
+                statusCode: 400,
+                headers: CORS_HEADERS,
+                body: JSON.stringify({
+                    error: "Invalid request parameters",
+                    details: error.issues,
+                }),
+            };
+        }
+
+        console.error("Error searching contents:", error);
+        return {
+            statusCode: 500,
+            headers: CORS_HEADERS,
+            body: JSON.stringify({ error: "Internal server error" }),
+        };
+    }
+};
@@ -1,12 +1,12 @@
+import { getDigestQueue, NewsletterPreferencesViewDTO } from "../utils/newsletter-pipeline";
+import { getPreviousSendTime } from "../utils/schedule";
+import { getDeliveryKeyId, getDeliveryPeriod, getRecordedDeliveries } from "../utils/delivery-ledger";
 import { trackBatchEmailAnalytics, EmailAnalytics } from "../utils/email-analytics";
-import { SESClient, SendEmailCommand } from "@aws-sdk/client-ses";
-import { LambdaClient, InvokeCommand } from "@aws-sdk/client-lambda";
-import { renderNewsletterEmail } from "../emails/render-email";
+import { getSuppressedEmails, isSuppressed } from "../utils/suppressions";
 import { createClient } from "@supabase/supabase-js";
 import { ScheduledEvent } from "aws-lambda";
+import { randomUUID } from "crypto";
 
-const ses = new SESClient({ region: process.env.AWS_REGION });
-const lambda = new LambdaClient({ region: process.env.AWS_REGION });
 const supabase = createClient(
     process.env.SUPABASE_URL!,
     process.env.SUPABASE_SERVICE_ROLE_KEY!,
@@ -18,117 +18,52 @@ const supabase = createClient(
     }
 );
 
-type NewsletterPreferencesViewDTO = {
-    newsletter_preference_id: string;
-    profile_id: string;
-    user_id: string;
-    email: string;
-    username: string;
-    timezone: string;
-    language: string;
-    platform: "medium" | "instagram" | "x";
-    followings: string[];
-    newsletter_enabled: boolean;
-    frequency: "daily" | "weekly" | "monthly";
-    send_time: string;
-}
-
-function getCurrentHourInTimezone(timezone: string): number {
-    const now = new Date();
-    const formatter = new Intl.DateTimeFormat("en-US", {
-        timeZone: timezone,
-        hour: "numeric",
-        hour12: false,
-    });
-    return parseInt(formatter.format(now));
-}
-
-function getCurrentDayInTimezone(timezone: string): number {
-    const now = new Date();
-    const formatter = new Intl.DateTimeFormat("en-US", {
-        timeZone: timezone,
-        weekday: "short",
-    });
-    const dayName = formatter.format(now);
-    const dayMap: Record<string, number> = {
-        Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6
-    };
-    return dayMap[dayName];
-}
-
-function getCurrentDayOfMonthInTimezone(timezone: string): number {
-    const now = new Date();
-    const formatter = new Intl.DateTimeFormat("en-US", {
-        timeZone: timezone,
-        day: "numeric",
-    });
-    return parseInt(formatter.format(now));
-}
-
-function shouldSendNewsletter(
-    frequency: "daily" | "weekly" | "monthly",
-    sendTime: string,
-    timezone: string
-): boolean {
-    const [sendHour] = sendTime.split(":").map(Number);
-    const currentHour = getCurrentHourInTimezone(timezone);
-
-    if (currentHour !== sendHour) {
-        return false;
+const HOUR_MS = 60 * 60 * 1000;
+// Must match the rate of the schedule event in serverless.yml.
+const SCHEDULE_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Returns the send time a newsletter became due at, if it fell within the
+ * last scheduler interval, or within `graceHours` before that so a digest
+ * missed during an outage is still picked up. The delivery ledger keeps the
+ * look-back from sending the same period twice.
+ */
+function findDueTime(
+    pref: NewsletterPreferencesViewDTO,
+    now: Date,
+    graceHours: number
+): Date | null {
+    try {
+        const previousSendTime = getPreviousSendTime({
+            frequency: pref.frequency,
+            sendTime: pref.send_time,
+            timezone: pref.timezone,
+            weekday: pref.send_weekday,
+            dayOfMonth: pref.send_day_of_month,
+        }, now);
+        const elapsed = now.getTime() - previousSendTime.getTime();
+
+        return elapsed < SCHEDULE_INTERVAL_MS + graceHours * HOUR_MS ? previousSendTime : null;
+    } catch (error) {
+        console.error(`Invalid schedule for ${pref.email}:`, error);
+        return null;
     }
-
-    if (frequency === "daily") {
-        return true;
-    }
-
-    if (frequency === "weekly") {
-        const currentDay = getCurrentDayInTimezone(timezone);
-        return currentDay === 1;
-    }
-
-    if (frequency === "monthly") {
-        const currentDayOfMonth = getCurrentDayOfMonthInTimezone(timezone);
-        return currentDayOfMonth === 1;
-    }
-
-    return false;
 }
 
-async function getContentsByPlatformAndUsername(platform: string, username: string): Promise<any> {
-    const functionName = process.env.FETCH_CONTENTS_FUNCTION_NAME || `${process.env.AWS_LAMBDA_FUNCTION_NAME?.split('-').slice(0, -1).join('-')}-fetchContents`;
-
-    const payload = {
-        pathParameters: {
-            platformName: platform.toUpperCase(),
-            username,
-        },
-        queryStringParameters: {
-            since: "today",
-        },
-    };
-
-    const command = new InvokeCommand({
-        FunctionName: functionName,
-        InvocationType: "RequestResponse",
-        Payload: JSON.stringify(payload),
-    });
+function getCatchUpGraceHours(event: NewsletterScheduleEvent): number {
+    const graceHours = event.catchUpGraceHours ?? parseInt(process.env.NEWSLETTER_CATCH_UP_GRACE_HOURS || "0", 10);
 
-    const response = await lambda.send(command);
-
-    if (!response.Payload) {
-        throw new Error("No response from Lambda function");
-    }
-
-    const result = JSON.parse(Buffer.from(response.Payload).toString());
+    return Number.isFinite(graceHours) && graceHours > 0 ? Math.floor(graceHours) : 0;
+}
 
-    if (result.statusCode !== 200) {
-        throw new Error(`Lambda invocation failed: ${result.body}`);
-    }
+type NewsletterScheduleEvent = Partial<ScheduledEvent> & {
+    catchUpGraceHours?: number;
+};
 
-    return JSON.parse(result.body);
-}
+const handler = async (event: NewsletterScheduleEvent) => {
+    const now = new Date();
+    const graceHours = getCatchUpGraceHours(event);
 
-const handler = async (_event: ScheduledEvent) => {
     const { data: newsletterPreferences, error: getNewsletterPreferencesError } = await supabase
         .from("newsletter_preferences_view")
         .select("*")
@@ -153,24 +88,58 @@ const handler = async (_event: ScheduledEvent) => {
 
     const analyticsData: EmailAnalytics[] = [];
 
-    const preferencesToSend = newsletterPreferences.filter((pref) => {
-        const shouldSend = shouldSendNewsletter(pref.frequency, pref.send_time, pref.timezone);
-        if (!shouldSend) {
-            console.log(`Skipping newsletter for ${pref.email} (frequency: ${pref.frequency}, send_time: ${pref.send_time}, timezone: ${pref.timezone})`);
-            analyticsData.push({
-                email: pref.email,
-                user_id: pref.user_id,
-                status: "skipped",
-                followings_count: 0,
-                total_contents_count: 0,
-                platforms: [pref.platform],
-                frequency: pref.frequency,
-                timezone: pref.timezone,
-                send_time: pref.send_time,
-                sent_at: new Date(),
-            });
+    // Most preferences are not due on a given run. That is not recorded:
+    // at one run every 15 minutes it would swamp the analytics.
+    const duePreferences = newsletterPreferences.flatMap((pref) => {
+        const dueAt = findDueTime(pref, now, graceHours);
+        return dueAt ? [{ pref, period: getDeliveryPeriod(pref.frequency, dueAt, pref.timezone) }] : [];
+    });
+
+    const recordedDeliveries = await getRecordedDeliveries(
+        duePreferences.map(({ pref, period }) => ({ user_id: pref.user_id, frequency: pref.frequency, period }))
+    );
+
+    const undeliveredPreferences = duePreferences.filter(({ pref, period }) => {
+        const alreadyDelivered = recordedDeliveries.has(
+            getDeliveryKeyId({ user_id: pref.user_id, frequency: pref.frequency, period })
+        );
+        if (alreadyDelivered) {
+            console.log(`Newsletter for ${pref.email} already delivered for ${pref.frequency} period ${period}`);
         }
-        return shouldSend;
+        return !alreadyDelivered;
+    });
+
+    let suppressedEmails: Set<string>;
+    try {
+        suppressedEmails = await getSuppressedEmails(undeliveredPreferences.map(({ pref }) => pref.email));
+    } catch (error) {
+        console.error("Failed to fetch email suppressions:", error);
+        return {
+            statusCode: 500,
+            body: JSON.stringify({ error: "Failed to fetch email suppressions" }),
+        };
+    }
+
+    // Hard-bounced addresses and spam complaints are never mailed again.
+    const preferencesToSend = undeliveredPreferences.filter(({ pref }) => {
+        if (!isSuppressed(suppressedEmails, pref.email)) {
+            return true;
+        }
+
+        console.log(`Suppressing newsletter for ${pref.email}: address is on the suppression list`);
+        analyticsData.push({
+            email: pref.email,
+            user_id: pref.user_id,
+            status: "suppressed",
+            followings_count: 0,
+            total_contents_count: 0,
+            platforms: [pref.platform],
+            frequency: pref.frequency,
+            timezone: pref.timezone,
+            send_time: pref.send_time,
+            sent_at: new Date(),
+        });
+        return false;
     });
 
     if (preferencesToSend.length === 0) {
@@ -183,177 +152,48 @@ const handler = async (_event: ScheduledEvent) => {
 
     console.log(`Processing ${preferencesToSend.length} out of ${newsletterPreferences.length} newsletter preferences`);
 
-    const groupedByUser = new Map<string, NewsletterPreferencesViewDTO[]>();
-    for (const pref of preferencesToSend) {
-        const existing = groupedByUser.get(pref.email) || [];
-        existing.push(pref);
-        groupedByUser.set(pref.email, existing);
+    // One digest per user, frequency and period, which is also the unit the
+    // delivery ledger claims.
+    const groupedByDelivery = new Map<string, { period: string; preferences: NewsletterPreferencesViewDTO[] }>();
+    for (const { pref, period } of preferencesToSend) {
+        const key = getDeliveryKeyId({ user_id: pref.user_id, frequency: pref.frequency, period });
+        const existing = groupedByDelivery.get(key) || { period, preferences: [] };
+        existing.preferences.push(pref);
+        groupedByDelivery.set(key, existing);
     }
 
-    console.log(`Grouped into ${groupedByUser.size} unique users`);
-
-    const usersWithContents = await Promise.allSettled(
-        Array.from(groupedByUser.entries()).map(async ([email, preferences]) => {
-            const followingsResults = await Promise.allSettled(
-                preferences.map(async (pref) => {
-                    try {
-                        const contents = await getContentsByPlatformAndUsername(pref.platform, pref.username);
-                        return {
-                            username: pref.username,
-                            platform: pref.platform,
-                            contents: contents || [],
-                        };
-                    } catch (error) {
-                        console.error(`Failed to fetch contents for ${pref.username} on ${pref.platform}:`, error);
-                        return {
-                            username: pref.username,
-                            platform: pref.platform,
-                            contents: [],
-                        };
-                    }
-                })
-            );
-
-            const followings = followingsResults
-                .filter((result): result is PromiseFulfilledResult<{ username: string; platform: "medium" | "instagram" | "x"; contents: any[] }> =>
-                    result.status === "fulfilled"
-                )
-                .map(result => result.value);
-
-            return {
-                email,
-                followings,
-            };
-        })
-    );
-
-    const emailData = usersWithContents
-        .filter((result): result is PromiseFulfilledResult<{ email: string; followings: any[] }> =>
-            result.status === "fulfilled"
-        )
-        .map(result => result.value);
-
-    if (emailData.length === 0) {
-        console.log("No valid emails to send");
+    console.log(`Grouped into ${groupedByDelivery.size} deliveries`);
+
+    // The scheduler only enqueues one digest job per delivery; fetching and
+    // sending happen in the worker and sender stages.
+    const digestJobs = Array.from(groupedByDelivery.values()).map(({ period, preferences }) => ({
+        jobId: randomUUID(),
+        email: preferences[0].email,
+        frequency: preferences[0].frequency,
+        period,
+        preferences,
+    }));
+
+    try {
+        await getDigestQueue().enqueue(digestJobs);
+    } catch (error) {
+        console.error("Failed to enqueue digest jobs:", error);
         return {
-            statusCode: 200,
-            body: JSON.stringify({ message: "No valid newsletters to send" }),
+            statusCode: 500,
+            body: JSON.stringify({ error: "Failed to enqueue digest jobs" }),
         };
     }
 
-    const sendResults = await Promise.allSettled(
-        emailData.map(async ({ email, followings }) => {
-            const startTime = Date.now();
-            const userPreferences = Array.from(groupedByUser.get(email) || []);
-            const userPref = userPreferences[0];
-
-            try {
-                const html = await renderNewsletterEmail({
-                    userEmail: email,
-                    followings,
-                });
-
-                const totalContents = followings.reduce((sum, f) => sum + f.contents.length, 0);
-                const subject = totalContents > 0
-                    ? `Your Content Digest: ${totalContents} new ${totalContents === 1 ? 'update' : 'updates'}`
-                    : "Your Content Digest";
-
-                const command = new SendEmailCommand({
-                    Source: process.env.SES_FROM_EMAIL!,
-                    Destination: {
-                        ToAddresses: [email],
-                    },
-                    Message: {
-                        Subject: {
-                            Data: subject,
-                            Charset: "UTF-8",
-                        },
-                        Body: {
-                            Html: {
-                                Data: html,
-                                Charset: "UTF-8",
-                            },
-                        },
-                    },
-                });
-
-                await ses.send(command);
-                const processingTime = Date.now() - startTime;
-
-                console.log(`Successfully sent email to ${email} with ${followings.length} followings (${totalContents} total contents)`);
-
-                const platforms = [...new Set(followings.map(f => f.platform))];
-                analyticsData.push({
-                    email,
-                    user_id: userPref?.user_id,
-                    status: "sent",
-                    followings_count: followings.length,
-                    total_contents_count: totalContents,
-                    platforms,
-                    frequency: userPref?.frequency || "daily",
-                    timezone: userPref?.timezone || "UTC",
-                    send_time: userPref?.send_time || "00:00",
-                    sent_at: new Date(),
-                    processing_time_ms: processingTime,
-                });
-
-                return { email, success: true };
-            } catch (error) {
-                const errorMessage = error instanceof Error ? error.message : "Unknown error";
-                const processingTime = Date.now() - startTime;
-
-                console.error(`Failed to send email to ${email}:`, errorMessage);
-
-                const platforms = [...new Set(followings.map(f => f.platform))];
-                analyticsData.push({
-                    email,
-                    user_id: userPref?.user_id,
-                    status: "failed",
-                    error_message: errorMessage,
-                    followings_count: followings.length,
-                    total_contents_count: followings.reduce((sum, f) => sum + f.contents.length, 0),
-                    platforms,
-                    frequency: userPref?.frequency || "daily",
-                    timezone: userPref?.timezone || "UTC",
-                    send_time: userPref?.send_time || "00:00",
-                    sent_at: new Date(),
-                    processing_time_ms: processingTime,
-                });
-
-                return { email, success: false, error: errorMessage };
-            }
-        })
-    );
-
-    const errors: Array<{ email: string; error: string }> = [];
-    let successCount = 0;
-
-    sendResults.forEach((result) => {
-        if (result.status === "fulfilled") {
-            if (result.value.success) {
-                successCount++;
-            } else {
-                errors.push({ email: result.value.email, error: result.value.error || "Unknown error" });
-            }
-        } else {
-            errors.push({ email: "unknown", error: result.reason });
-        }
-    });
-
-    const failureCount = errors.length;
-
     if (analyticsData.length > 0) {
         await trackBatchEmailAnalytics(analyticsData);
         console.log(`Tracked ${analyticsData.length} email analytics records`);
     }
 
     return {
-        statusCode: errors.length > 0 ? 207 : 200,
+        statusCode: 200,
         body: JSON.stringify({
-            message: `Processed ${emailData.length} newsletters`,
-            successCount,
-            failureCount,
-            errors: errors.length > 0 ? errors : undefined,
+            message: `Enqueued ${digestJobs.length} newsletters`,
+            enqueuedCount: digestJobs.length,
         }),
     };
 };
@@ -0,0 +1,131 @@
+import { beforeAll, beforeEach, describe, expect, it, mock } from "bun:test";
+import type { Context, SNSEvent, SNSHandler } from "aws-lambda";
+import { readFileSync } from "fs";
+import { join } from "path";
+
+const recordEmailFeedback = mock(async (_feedback: unknown) => {});
+const suppressEmail = mock(async (_suppression: unknown) => {});
+
+mock.module("../utils/email-analytics", () => ({ recordEmailFeedback }));
+mock.module("../utils/suppressions", () => ({ suppressEmail }));
+
+function loadFixture(name: string): SNSEvent {
+    return JSON.parse(readFileSync(join(__dirname, "__fixtures__", "ses", name), "utf8"));
+}
+
+describe("ses-notifications handler", () => {
+    let handler: SNSHandler;
+    const invoke = (event: SNSEvent) => handler(event, {} as Context, () => {});
+
+    beforeAll(async () => {
+        ({ handler } = await import("./ses-notifications"));
+    });
+
+    beforeEach(() => {
+        recordEmailFeedback.mockClear();
+        recordEmailFeedback.mockImplementation(async () => {});
+        suppressEmail.mockClear();
+        suppressEmail.mockImplementation(async () => {});
+    });
+
+    it("records a permanent bounce and suppresses the recipient", async () => {
+        await invoke(loadFixture("bounce-permanent.json"));
+
+        expect(recordEmailFeedback.mock.calls).toEqual([[{
+            ses_message_id: "0102018f-bounce-permanent",
+            delivery_status: "bounced",
+            feedback_detail: "Permanent/General",
+            feedback_at: new Date("2026-10-19T09:01:10.000Z"),
+        }]]);
+        expect(suppressEmail.mock.calls).toEqual([[{
+            email: "Gone.User@Example.com",
+            reason: "bounce",
+            detail: "smtp; 550 5.1.1 user unknown",
+            ses_message_id: "0102018f-bounce-permanent",
+            suppressed_at: new Date("2026-10-19T09:01:10.000Z"),
+        }]]);
+    });
+
+    it("records a transient bounce without suppressing", async () => {
+        await invoke(loadFixture("bounce-transient.json"));
+
+        expect(recordEmailFeedback).toHaveBeenCalledTimes(1);
+        expect(recordEmailFeedback.mock.calls[0][0]).toMatchObject({
+            delivery_status: "bounced",
+            feedback_detail: "Transient/MailboxFull",
+        });
+        expect(suppressEmail).not.toHaveBeenCalled();
+    });
+
+    it("records a complaint from configuration set events and suppresses the recipient", async () => {
+        await invoke(loadFixture("complaint.json"));
+
+        expect(recordEmailFeedback.mock.calls).toEqual([[{
+            ses_message_id: "0102018f-complaint",
+            delivery_status: "complained",
+            feedback_detail: "abuse",
+            feedback_at: new Date("2026-10-19T10:15:00.000Z"),
+        }]]);
+        expect(suppressEmail.mock.calls).toEqual([[{
+            email: "annoyed@example.com",
+            reason: "complaint",
+            detail: "abuse",
+            ses_message_id: "0102018f-complaint",
+            suppressed_at: new Date("2026-10-19T10:15:00.000Z"),
+        }]]);
+    });
+
+    it("records deliveries without suppressing", async () => {
+        await invoke(loadFixture("delivery.json"));
+
+        expect(recordEmailFeedback.mock.calls).toEqual([[{
+            ses_message_id: "0102018f-delivery",
+            delivery_status: "delivered",
+            feedback_at: new Date("2026-10-19T09:01:02.000Z"),
+        }]]);
+        expect(suppressEmail).not.toHaveBeenCalled();
+    });
+
+    it("skips malformed messages and keeps processing the batch", async () => {
+        const event = loadFixture("delivery.json");
+        event.Records.unshift({
+            ...event.Records[0],
+            Sns: { ...event.Records[0].Sns, MessageId: "malformed", Message: "not json" },
+        });
+
+        await invoke(event);
+
+        expect(recordEmailFeedback).toHaveBeenCalledTimes(1);
+    });
+
+    it("ignores other notification types", async () => {
+        const event = loadFixture("delivery.json");
+        event.Records[0].Sns.Message = JSON.stringify({
+            eventType: "Open",
+            mail: { messageId: "0102018f-open", destination: [] },
+            open: { timestamp: "2026-10-19T11:00:00.000Z" },
+        });
+
+        await invoke(event);
+
+        expect(recordEmailFeedback).not.toHaveBeenCalled();
+        expect(suppressEmail).not.toHaveBeenCalled();
+    });
+
+    it("rethrows failures so SNS retries the delivery", async () => {
+        suppressEmail.mockImplementation(async () => {
+            throw new Error("Failed to suppress Gone.User@Example.com: timeout");
+        });
+
+        await expect(invoke(loadFixture("bounce-permanent.json"))).rejects.toThrow("Failed to suppress");
+    });
+
+    it("suppresses before recording feedback, and rethrows while the send is not recorded", async () => {
+        recordEmailFeedback.mockImplementation(async () => {
+            throw new Error("No email analytics row for SES message 0102018f-complaint");
+        });
+
+        await expect(invoke(loadFixture("complaint.json"))).rejects.toThrow("No email analytics row");
+        expect(suppressEmail).toHaveBeenCalledTimes(1);
+    });
+});
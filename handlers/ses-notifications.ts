@@ -0,0 +1,125 @@
+import { recordEmailFeedback } from "../utils/email-analytics";
+import { suppressEmail } from "../utils/suppressions";
+import { SNSHandler } from "aws-lambda";
+
+type SesMail = {
+    messageId: string;
+    destination: string[];
+};
+
+type SesBounce = {
+    bounceType: "Undetermined" | "Permanent" | "Transient";
+    bounceSubType: string;
+    bouncedRecipients: Array<{ emailAddress: string; diagnosticCode?: string }>;
+    timestamp: string;
+};
+
+type SesComplaint = {
+    complainedRecipients: Array<{ emailAddress: string }>;
+    complaintFeedbackType?: string;
+    timestamp: string;
+};
+
+type SesDelivery = {
+    recipients: string[];
+    timestamp: string;
+};
+
+/**
+ * Identity notifications carry `notificationType`, while configuration set
+ * event publishing carries `eventType`; both share the remaining shape.
+ */
+type SesNotification = {
+    notificationType?: "Bounce" | "Complaint" | "Delivery";
+    eventType?: "Bounce" | "Complaint" | "Delivery";
+    mail: SesMail;
+    bounce?: SesBounce;
+    complaint?: SesComplaint;
+    delivery?: SesDelivery;
+};
+
+// Recipients are suppressed before the feedback is recorded: recording
+// throws until the analytics row of the send exists, and suppressing again on
+// a redelivery is harmless.
+async function handleBounce(mail: SesMail, bounce: SesBounce): Promise<void> {
+    const detail = `${bounce.bounceType}/${bounce.bounceSubType}`;
+
+    // Transient bounces (full mailbox, throttling) may succeed next time.
+    if (bounce.bounceType === "Permanent") {
+        for (const recipient of bounce.bouncedRecipients) {
+            await suppressEmail({
+                email: recipient.emailAddress,
+                reason: "bounce",
+                detail: recipient.diagnosticCode || detail,
+                ses_message_id: mail.messageId,
+                suppressed_at: new Date(bounce.timestamp),
+            });
+            console.log(`Suppressed ${recipient.emailAddress} after a permanent bounce`);
+        }
+    }
+
+    await recordEmailFeedback({
+        ses_message_id: mail.messageId,
+        delivery_status: "bounced",
+        feedback_detail: detail,
+        feedback_at: new Date(bounce.timestamp),
+    });
+}
+
+async function handleComplaint(mail: SesMail, complaint: SesComplaint): Promise<void> {
+    for (const recipient of complaint.complainedRecipients) {
+        await suppressEmail({
+            email: recipient.emailAddress,
+            reason: "complaint",
+            detail: complaint.complaintFeedbackType,
+            ses_message_id: mail.messageId,
+            suppressed_at: new Date(complaint.timestamp),
+        });
+        console.log(`Suppressed ${recipient.emailAddress} after a complaint`);
+    }
+
+    await recordEmailFeedback({
+        ses_message_id: mail.messageId,
+        delivery_status: "complained",
+        feedback_detail: complaint.complaintFeedbackType,
+        feedback_at: new Date(complaint.timestamp),
+    });
+}
+
+async function handleDelivery(mail: SesMail, delivery: SesDelivery): Promise<void> {
+    await recordEmailFeedback({
+        ses_message_id: mail.messageId,
+        delivery_status: "delivered",
+        feedback_at: new Date(delivery.timestamp),
+    });
+}
+
+export async function processSesNotification(notification: SesNotification): Promise<void> {
+    const type = notification.notificationType || notification.eventType;
+
+    if (type === "Bounce" && notification.bounce) {
+        await handleBounce(notification.mail, notification.bounce);
+    } else if (type === "Complaint" && notification.complaint) {
+        await handleComplaint(notification.mail, notification.complaint);
+    } else if (type === "Delivery" && notification.delivery) {
+        await handleDelivery(notification.mail, notification.delivery);
+    } else {
+        console.log(`Ignoring SES notification of type ${type}`);
+    }
+}
+
+export const handler: SNSHandler = async (event) => {
+    for (const record of event.Records) {
+        let notification: SesNotification;
+
+        try {
+            notification = JSON.parse(record.Sns.Message);
+        } catch (error) {
+            console.error(`Ignoring malformed SES notification ${record.Sns.MessageId}:`, error);
+            continue;
+        }
+
+        // Failures are rethrown so SNS retries the delivery.
+        await processSesNotification(notification);
+    }
+};
@@ -1,13 +1,29 @@
 import { APIGatewayAuthorizerHandler } from 'aws-lambda'
-import { jwtVerify, createRemoteJWKSet } from 'jose'
+import { jwtVerify, createRemoteJWKSet, JWTPayload } from 'jose'
+import { AuthorizerContext, CallerRole } from '../utils/authorization'
 
 const PROJECT_JWKS = createRemoteJWKSet(
   new URL(`${process.env.SUPABASE_AUTH_API_URL}/.well-known/jwks.json`)
 );
 
-const generatePolicy = (principalId: string, effect: 'Allow' | 'Deny', resource: string) => {
+// Only `app_metadata` is considered: it can be changed by the service role
+// alone, while users can edit their own `user_metadata`.
+const getRole = (payload: JWTPayload): CallerRole => {
+  const appMetadata = (payload.app_metadata || {}) as { role?: unknown; roles?: unknown };
+  const roles = Array.isArray(appMetadata.roles) ? appMetadata.roles : [appMetadata.role];
+
+  return roles.includes('admin') ? 'admin' : 'user';
+}
+
+const generatePolicy = (
+  principalId: string,
+  effect: 'Allow' | 'Deny',
+  resource: string,
+  context?: AuthorizerContext,
+) => {
   return {
     principalId,
+    context,
     policyDocument: {
       Version: '2012-10-17',
       Statement: [
@@ -44,7 +60,7 @@ export const handler: APIGatewayAuthorizerHandler = async (event) => {
       return generatePolicy('anonymous', 'Deny', event.methodArn);
     }
 
-    return generatePolicy(userId, 'Allow', event.methodArn);
+    return generatePolicy(userId, 'Allow', event.methodArn, { role: getRole(payload) });
   } catch (error) {
     console.error('Authorization failed:', error);
     return generatePolicy('anonymous', 'Deny', event.methodArn);
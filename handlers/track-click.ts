@@ -0,0 +1,39 @@
+import { recordEmailEvent, verifyTrackingData, ClickTrackingData } from "../utils/tracking";
+import { APIGatewayProxyHandler } from "aws-lambda";
+
+export const handler: APIGatewayProxyHandler = async (event) => {
+    const data = verifyTrackingData<ClickTrackingData>(event.queryStringParameters?.d || "");
+
+    // Only signed URLs are followed, so the endpoint cannot be used as an
+    // open redirect.
+    if (!data || typeof data.url !== "string" || !URL.canParse(data.url)) {
+        return {
+            statusCode: 302,
+            headers: {
+                Location: process.env.WEBSITE_URL || "/",
+                "Cache-Control": "no-store",
+            },
+            body: "",
+        };
+    }
+
+    await recordEmailEvent({
+        message_id: data.messageId,
+        type: "click",
+        url: data.url,
+        creator: data.creator,
+        platform: data.platform,
+        title: data.title,
+        user_agent: event.headers?.["User-Agent"] || event.headers?.["user-agent"],
+        occurred_at: new Date(),
+    });
+
+    return {
+        statusCode: 302,
+        headers: {
+            Location: data.url,
+            "Cache-Control": "no-store",
+        },
+        body: "",
+    };
+};
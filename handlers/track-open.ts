@@ -0,0 +1,28 @@
+import { recordEmailEvent, verifyTrackingData, OpenTrackingData } from "../utils/tracking";
+import { APIGatewayProxyHandler } from "aws-lambda";
+
+// 1x1 transparent GIF.
+const PIXEL = "R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7";
+
+export const handler: APIGatewayProxyHandler = async (event) => {
+    const data = verifyTrackingData<OpenTrackingData>(event.queryStringParameters?.d || "");
+
+    if (data) {
+        await recordEmailEvent({
+            message_id: data.messageId,
+            type: "open",
+            user_agent: event.headers?.["User-Agent"] || event.headers?.["user-agent"],
+            occurred_at: new Date(),
+        });
+    }
+
+    return {
+        statusCode: 200,
+        headers: {
+            "Content-Type": "image/gif",
+            "Cache-Control": "no-store, no-cache, must-revalidate, private",
+        },
+        body: PIXEL,
+        isBase64Encoded: true,
+    };
+};
@@ -0,0 +1,120 @@
+import { verifyUnsubscribeToken, UnsubscribeClaims } from "../utils/unsubscribe-token";
+import { APIGatewayProxyHandler, APIGatewayProxyResult } from "aws-lambda";
+import { createTranslator, resolveLocale, Translator } from "../emails/i18n";
+import { createClient } from "@supabase/supabase-js";
+
+const supabase = createClient(
+    process.env.SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+        auth: {
+            autoRefreshToken: false,
+            persistSession: false,
+        },
+    }
+);
+
+const HTML_HEADERS = {
+    "Content-Type": "text/html; charset=utf-8",
+    "Cache-Control": "no-store",
+};
+
+const ONE_CLICK_BODY = "List-Unsubscribe=One-Click";
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+}
+
+function renderPage(translator: Translator, body: string, statusCode = 200): APIGatewayProxyResult {
+    return {
+        statusCode,
+        headers: HTML_HEADERS,
+        body: `<!DOCTYPE html>
+<html lang="${translator.locale}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(translator.t("unsubscribeTitle"))}</title>
+</head>
+<body style="font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;max-width:480px;margin:48px auto;padding:0 16px;color:#1a1a1a">
+${body}
+</body>
+</html>`,
+    };
+}
+
+function renderConfirmation(translator: Translator, token: string): APIGatewayProxyResult {
+    const action = `?token=${encodeURIComponent(token)}`;
+
+    return renderPage(translator, `<h1>${escapeHtml(translator.t("unsubscribeTitle"))}</h1>
+<p>${escapeHtml(translator.t("unsubscribePrompt"))}</p>
+<form method="POST" action="${escapeHtml(action)}">
+<button type="submit" name="scope" value="preference">${escapeHtml(translator.t("unsubscribeThis"))}</button>
+<button type="submit" name="scope" value="all">${escapeHtml(translator.t("unsubscribeAll"))}</button>
+</form>`);
+}
+
+async function disableNewsletters(claims: UnsubscribeClaims, scope: "preference" | "all"): Promise<void> {
+    const query = supabase
+        .from("newsletter_preferences")
+        .update({ newsletter_enabled: false });
+
+    const { error } = scope === "all"
+        ? await query.eq("profile_id", claims.profileId)
+        : await query.eq("profile_id", claims.profileId).in("id", claims.preferenceIds);
+
+    if (error) {
+        throw new Error(`Failed to disable newsletters: ${error.message}`);
+    }
+}
+
+function parseFormBody(body: string | null, isBase64Encoded: boolean): URLSearchParams {
+    if (!body) {
+        return new URLSearchParams();
+    }
+
+    return new URLSearchParams(isBase64Encoded ? Buffer.from(body, "base64").toString("utf-8") : body);
+}
+
+/**
+ * GET shows a confirmation page so link scanners that prefetch URLs cannot
+ * unsubscribe anyone. POST performs the unsubscribe, either from the
+ * confirmation form or as an RFC 8058 one-click request from the mail client.
+ */
+export const handler: APIGatewayProxyHandler = async (event) => {
+    const token = event.queryStringParameters?.token || "";
+    const claims = token ? await verifyUnsubscribeToken(token) : null;
+    const translator = createTranslator(resolveLocale(claims?.language));
+
+    if (!claims) {
+        return renderPage(translator, `<p>${escapeHtml(translator.t("unsubscribeInvalid"))}</p>`, 400);
+    }
+
+    if (event.httpMethod === "GET") {
+        return renderConfirmation(translator, token);
+    }
+
+    const form = parseFormBody(event.body, event.isBase64Encoded);
+    const isOneClick = form.toString() === new URLSearchParams(ONE_CLICK_BODY).toString();
+    const scope = form.get("scope") === "all" ? "all" : "preference";
+
+    try {
+        await disableNewsletters(claims, scope);
+    } catch (error) {
+        console.error("Error unsubscribing:", error);
+        return isOneClick
+            ? { statusCode: 500, body: "" }
+            : renderPage(translator, `<p>Internal server error</p>`, 500);
+    }
+
+    console.log(`Unsubscribed user ${claims.userId} (scope: ${scope}, one-click: ${isOneClick})`);
+
+    return isOneClick
+        ? { statusCode: 200, body: "" }
+        : renderPage(translator, `<p>${escapeHtml(translator.t("unsubscribeDone"))}</p>`);
+};
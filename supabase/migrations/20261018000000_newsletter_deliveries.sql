@@ -0,0 +1,23 @@
+-- Delivery ledger behind the idempotent newsletter sender. A send claims its
+-- (user, frequency, period) by inserting a row; the unique constraint makes a
+-- second claim fail with 23505, which is what keeps deliveries exactly-once.
+
+create table if not exists public.newsletter_deliveries (
+    id bigint generated always as identity primary key,
+    user_id uuid not null,
+    frequency text not null check (frequency in ('daily', 'weekly', 'monthly')),
+    period text not null,
+    email text not null,
+    status text not null default 'claimed' check (status in ('claimed', 'sent')),
+    claimed_at timestamptz not null default now(),
+    sent_at timestamptz,
+    constraint newsletter_deliveries_user_id_frequency_period_key unique (user_id, frequency, period)
+);
+
+-- Looks up the previous digest of a frequency to start the next one from.
+create index if not exists newsletter_deliveries_last_sent_idx
+    on public.newsletter_deliveries (user_id, frequency, sent_at desc)
+    where status = 'sent';
+
+-- Only the service role writes the ledger.
+alter table public.newsletter_deliveries enable row level security;
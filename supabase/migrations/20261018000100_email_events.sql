@@ -0,0 +1,26 @@
+-- Opens and clicks recorded by the tracking endpoints. `message_id` is the
+-- send job id, which the matching `email_analytics` row carries as well.
+
+alter table public.email_analytics
+    add column if not exists message_id text;
+
+create table if not exists public.email_events (
+    id bigint generated always as identity primary key,
+    message_id text not null,
+    type text not null check (type in ('open', 'click')),
+    url text,
+    title text,
+    creator text,
+    platform text,
+    user_agent text,
+    occurred_at timestamptz not null default now()
+);
+
+create index if not exists email_analytics_message_id_idx
+    on public.email_analytics (message_id);
+
+create index if not exists email_events_occurred_at_idx
+    on public.email_events (occurred_at);
+
+-- Only the service role reads and writes events.
+alter table public.email_events enable row level security;
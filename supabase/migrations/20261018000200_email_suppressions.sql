@@ -0,0 +1,25 @@
+-- SES feedback. Bounces, complaints and deliveries are written onto the
+-- analytics row of the sent email, matched by the SES message id, and
+-- recipients who bounced permanently or complained are never mailed again.
+
+alter table public.email_analytics
+    add column if not exists ses_message_id text,
+    add column if not exists delivery_status text
+        check (delivery_status in ('delivered', 'bounced', 'complained')),
+    add column if not exists feedback_detail text,
+    add column if not exists feedback_at timestamptz;
+
+create index if not exists email_analytics_ses_message_id_idx
+    on public.email_analytics (ses_message_id);
+
+-- Addresses are stored lower-cased, so the primary key doubles as the
+-- upsert target.
+create table if not exists public.email_suppressions (
+    email text primary key,
+    reason text not null check (reason in ('bounce', 'complaint')),
+    detail text,
+    ses_message_id text,
+    suppressed_at timestamptz not null default now()
+);
+
+alter table public.email_suppressions enable row level security;
@@ -0,0 +1,39 @@
+-- Following history behind incremental syncs and the added/removed diffs.
+-- Unfollowed creators keep their row with `removed_at` set.
+
+create table if not exists public.followings (
+    id bigint generated always as identity primary key,
+    platform text not null,
+    parent_username text not null,
+    username text not null,
+    full_name text not null,
+    profile_url text not null,
+    profile_picture_url text,
+    first_seen_at timestamptz not null default now(),
+    last_seen_at timestamptz not null default now(),
+    removed_at timestamptz,
+    constraint followings_platform_parent_username_username_key unique (platform, parent_username, username)
+);
+
+create index if not exists followings_first_seen_at_idx
+    on public.followings (platform, parent_username, first_seen_at desc);
+
+create index if not exists followings_removed_at_idx
+    on public.followings (platform, parent_username, removed_at desc)
+    where removed_at is not null;
+
+create table if not exists public.following_syncs (
+    id bigint generated always as identity primary key,
+    platform text not null,
+    parent_username text not null,
+    mode text not null check (mode in ('full', 'incremental')),
+    added_count integer not null default 0,
+    removed_count integer not null default 0,
+    synced_at timestamptz not null default now()
+);
+
+create index if not exists following_syncs_synced_at_idx
+    on public.following_syncs (platform, parent_username, mode, synced_at desc);
+
+alter table public.followings enable row level security;
+alter table public.following_syncs enable row level security;
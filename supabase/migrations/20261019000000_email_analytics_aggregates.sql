@@ -0,0 +1,228 @@
+-- Aggregations behind GET /analytics/emails. They run in the database so the
+-- API never loads the analytics rows of a period into memory.
+
+create index if not exists email_analytics_sent_at_idx
+    on public.email_analytics (sent_at);
+
+create index if not exists email_analytics_user_id_sent_at_idx
+    on public.email_analytics (user_id, sent_at);
+
+create index if not exists email_events_message_id_idx
+    on public.email_events (message_id);
+
+create or replace function public.email_analytics_summary(
+    p_start timestamptz,
+    p_end timestamptz,
+    p_user_id uuid default null
+)
+returns jsonb
+language sql
+stable
+as $$
+    with scoped as (
+        select *
+        from public.email_analytics
+        where sent_at >= p_start
+          and sent_at <= p_end
+          and (p_user_id is null or user_id = p_user_id)
+    )
+    select jsonb_build_object(
+        'total_emails_sent', count(*) filter (where status = 'sent'),
+        'total_emails_failed', count(*) filter (where status = 'failed'),
+        'total_emails_skipped', count(*) filter (where status = 'skipped'),
+        'total_emails_suppressed', count(*) filter (where status = 'suppressed'),
+        'total_bounces', count(*) filter (where delivery_status = 'bounced'),
+        'total_complaints', count(*) filter (where delivery_status = 'complained'),
+        'average_contents_per_email', coalesce(avg(coalesce(total_contents_count, 0)) filter (where status = 'sent'), 0),
+        'average_processing_time_ms', coalesce(avg(processing_time_ms), 0),
+        'breakdown_by_frequency', (
+            select coalesce(jsonb_object_agg(frequency, jsonb_build_object(
+                'sent', sent,
+                'failed', failed,
+                'skipped', skipped
+            )), '{}'::jsonb)
+            from (
+                select
+                    frequency,
+                    count(*) filter (where status = 'sent') as sent,
+                    count(*) filter (where status = 'failed') as failed,
+                    count(*) filter (where status = 'skipped') as skipped
+                from scoped
+                group by frequency
+            ) by_frequency
+        ),
+        'breakdown_by_platform', (
+            select coalesce(jsonb_object_agg(platform, jsonb_build_object(
+                'sent', sent,
+                'failed', failed
+            )), '{}'::jsonb)
+            from (
+                select
+                    platforms.platform,
+                    count(*) filter (where scoped.status = 'sent') as sent,
+                    count(*) filter (where scoped.status = 'failed') as failed
+                from scoped
+                cross join lateral unnest(scoped.platforms) as platforms(platform)
+                group by platforms.platform
+            ) by_platform
+        )
+    )
+    from scoped;
+$$;
+
+-- Buckets are truncated in UTC. Empty buckets between the first and last
+-- email of the range are filled with zeros.
+create or replace function public.email_analytics_timeseries(
+    p_start timestamptz,
+    p_end timestamptz,
+    p_granularity text,
+    p_user_id uuid default null
+)
+returns table (
+    bucket timestamptz,
+    sent bigint,
+    failed bigint,
+    skipped bigint,
+    suppressed bigint,
+    bounces bigint,
+    complaints bigint
+)
+language sql
+stable
+as $$
+    with scoped as (
+        select date_trunc(p_granularity, sent_at, 'UTC') as bucket, status, delivery_status
+        from public.email_analytics
+        where sent_at >= p_start
+          and sent_at <= p_end
+          and (p_user_id is null or user_id = p_user_id)
+    ),
+    buckets as (
+        select generate_series(min(bucket), max(bucket), ('1 ' || p_granularity)::interval) as bucket
+        from scoped
+    )
+    select
+        buckets.bucket,
+        count(scoped.status) filter (where scoped.status = 'sent'),
+        count(scoped.status) filter (where scoped.status = 'failed'),
+        count(scoped.status) filter (where scoped.status = 'skipped'),
+        count(scoped.status) filter (where scoped.status = 'suppressed'),
+        count(scoped.status) filter (where scoped.delivery_status = 'bounced'),
+        count(scoped.status) filter (where scoped.delivery_status = 'complained')
+    from buckets
+    left join scoped on scoped.bucket = buckets.bucket
+    group by buckets.bucket
+    order by buckets.bucket;
+$$;
+
+-- Failures are grouped by their message with ids, email addresses and
+-- numbers masked, so e.g. throttling errors for different recipients end up
+-- in one group.
+create or replace function public.email_analytics_error_groups(
+    p_start timestamptz,
+    p_end timestamptz,
+    p_user_id uuid default null,
+    p_limit integer default 20
+)
+returns table (
+    error_pattern text,
+    sample_message text,
+    occurrences bigint,
+    last_seen_at timestamptz
+)
+language sql
+stable
+as $$
+    select
+        error_pattern,
+        (array_agg(error_message order by sent_at desc))[1],
+        count(*),
+        max(sent_at)
+    from (
+        select
+            sent_at,
+            coalesce(error_message, 'Unknown error') as error_message,
+            regexp_replace(
+                regexp_replace(
+                    regexp_replace(
+                        coalesce(error_message, 'Unknown error'),
+                        '[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}', '<id>', 'gi'
+                    ),
+                    '[^[:space:]@<>]+@[^[:space:]@<>]+', '<email>', 'g'
+                ),
+                '[0-9]+', '<n>', 'g'
+            ) as error_pattern
+        from public.email_analytics
+        where status = 'failed'
+          and sent_at >= p_start
+          and sent_at <= p_end
+          and (p_user_id is null or user_id = p_user_id)
+    ) failures
+    group by error_pattern
+    order by count(*) desc, max(sent_at) desc
+    limit p_limit;
+$$;
+
+-- Events can arrive after the period ends, so only the lower bound is applied
+-- to them and they are matched to the emails sent within the period. A click
+-- counts as an open even when images were blocked.
+create or replace function public.email_engagement_summary(
+    p_start timestamptz,
+    p_end timestamptz,
+    p_user_id uuid default null,
+    p_limit integer default 10
+)
+returns jsonb
+language sql
+stable
+as $$
+    with sent as (
+        select distinct message_id
+        from public.email_analytics
+        where status = 'sent'
+          and message_id is not null
+          and sent_at >= p_start
+          and sent_at <= p_end
+          and (p_user_id is null or user_id = p_user_id)
+    ),
+    events as (
+        select email_events.*
+        from public.email_events
+        join sent on sent.message_id = email_events.message_id
+        where email_events.occurred_at >= p_start
+    ),
+    clicks as (
+        select * from events where type = 'click'
+    )
+    select jsonb_build_object(
+        'tracked_emails', (select count(*) from sent),
+        'unique_opens', (select count(distinct message_id) from events where type in ('open', 'click')),
+        'unique_clicks', (select count(distinct message_id) from clicks),
+        'total_clicks', (select count(*) from clicks),
+        'top_clicked_creators', coalesce((
+            select jsonb_agg(top_creators)
+            from (
+                select creator, platform, count(*) as clicks
+                from clicks
+                group by creator, platform
+                order by clicks desc
+                limit p_limit
+            ) top_creators
+        ), '[]'::jsonb),
+        'top_clicked_items', coalesce((
+            select jsonb_agg(top_items)
+            from (
+                select
+                    url,
+                    coalesce(max(title), '') as title,
+                    max(creator) as creator,
+                    max(platform) as platform,
+                    count(*) as clicks
+                from clicks
+                group by url
+                order by clicks desc
+                limit p_limit
+            ) top_items
+        ), '[]'::jsonb)
+    );
+$$;
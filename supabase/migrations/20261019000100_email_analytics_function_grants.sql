@@ -0,0 +1,21 @@
+-- The aggregations take a user id and do not check who is asking, so only
+-- the API, which scopes them to the caller, may run them. Functions are
+-- executable by public by default.
+
+revoke execute on function public.email_analytics_summary(timestamptz, timestamptz, uuid)
+    from public, anon, authenticated;
+revoke execute on function public.email_analytics_timeseries(timestamptz, timestamptz, text, uuid)
+    from public, anon, authenticated;
+revoke execute on function public.email_analytics_error_groups(timestamptz, timestamptz, uuid, integer)
+    from public, anon, authenticated;
+revoke execute on function public.email_engagement_summary(timestamptz, timestamptz, uuid, integer)
+    from public, anon, authenticated;
+
+grant execute on function public.email_analytics_summary(timestamptz, timestamptz, uuid)
+    to service_role;
+grant execute on function public.email_analytics_timeseries(timestamptz, timestamptz, text, uuid)
+    to service_role;
+grant execute on function public.email_analytics_error_groups(timestamptz, timestamptz, uuid, integer)
+    to service_role;
+grant execute on function public.email_engagement_summary(timestamptz, timestamptz, uuid, integer)
+    to service_role;
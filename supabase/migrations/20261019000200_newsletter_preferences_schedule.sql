@@ -0,0 +1,27 @@
+-- Weekday and day of month of weekly and monthly newsletters. Null falls back
+-- to the defaults in utils/schedule.ts (Monday, the 1st).
+
+alter table public.newsletter_preferences
+    add column if not exists send_weekday smallint
+        constraint newsletter_preferences_send_weekday_check check (send_weekday between 0 and 6),
+    add column if not exists send_day_of_month smallint
+        constraint newsletter_preferences_send_day_of_month_check check (send_day_of_month between 1 and 31);
+
+-- The view predates the migrations in this repository, so its current
+-- definition is kept and only extended with the new columns. A view cannot
+-- gain columns in the middle through `create or replace`, hence the drop.
+do $$
+declare
+    base_definition text := rtrim(pg_get_viewdef('public.newsletter_preferences_view'::regclass), E'; \n');
+begin
+    drop view public.newsletter_preferences_view;
+
+    execute format(
+        'create view public.newsletter_preferences_view as
+            select base.*, np.send_weekday, np.send_day_of_month
+            from (%s) base
+            join public.newsletter_preferences np on np.id = base.newsletter_preference_id',
+        base_definition
+    );
+end
+$$;
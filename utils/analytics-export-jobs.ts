@@ -0,0 +1,183 @@
+import {
+    DELIVERY_LOG_EXPORT_COLUMNS,
+    EXPORT_CONTENT_TYPES,
+    ExportFormat,
+    formatExportHeader,
+    formatExportRows,
+    readDeliveryLogPages,
+} from "./analytics-export";
+import { InMemoryJobQueue, JobContext, JobQueue, SqsJobQueue } from "./job-queue";
+import { GetObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { Upload } from "@aws-sdk/lib-storage";
+import { Redis } from "@upstash/redis";
+import { randomUUID } from "crypto";
+import { Readable } from "stream";
+
+const redis = new Redis({
+    url: process.env.UPSTASH_REDIS_REST_URL,
+    token: process.env.UPSTASH_REDIS_REST_TOKEN,
+});
+const s3 = new S3Client({ region: process.env.AWS_REGION });
+
+// Must match maxReceiveCount of the redrive policy in serverless.yml.
+export const MAX_EXPORT_JOB_ATTEMPTS = 2;
+const JOB_KEY_PREFIX = "analytics:exports:";
+// Matches the lifecycle rule of the exports bucket in serverless.yml.
+const JOB_TTL_SECONDS = 24 * 60 * 60;
+const DOWNLOAD_URL_TTL_SECONDS = 15 * 60;
+
+export type ExportJobStatus = "pending" | "running" | "completed" | "failed";
+
+export type ExportJob = {
+    id: string;
+    /** The caller who started the export; only they and admins can read it. */
+    requestedBy: string;
+    /** Exported user, or every user for admin exports. */
+    userId?: string;
+    format: ExportFormat;
+    startDate: string;
+    endDate: string;
+    status: ExportJobStatus;
+    rowCount: number;
+    error?: string;
+    createdAt: string;
+    updatedAt: string;
+};
+
+export type ExportWriteJob = {
+    jobId: string;
+};
+
+let exportJobsQueue: JobQueue<ExportWriteJob> | undefined;
+
+export function getExportJobsQueue(): JobQueue<ExportWriteJob> {
+    exportJobsQueue ??= process.env.EXPORT_JOBS_QUEUE_URL
+        ? new SqsJobQueue<ExportWriteJob>(process.env.EXPORT_JOBS_QUEUE_URL)
+        : new InMemoryJobQueue<ExportWriteJob>(processExportWriteJob, MAX_EXPORT_JOB_ATTEMPTS);
+
+    return exportJobsQueue;
+}
+
+export async function getExportJob(jobId: string): Promise<ExportJob | null> {
+    return redis.get<ExportJob>(`${JOB_KEY_PREFIX}${jobId}`);
+}
+
+async function updateExportJob(jobId: string, update: Partial<ExportJob>): Promise<void> {
+    const job = await getExportJob(jobId);
+    if (!job) {
+        return;
+    }
+
+    await redis.set<ExportJob>(
+        `${JOB_KEY_PREFIX}${jobId}`,
+        { ...job, ...update, updatedAt: new Date().toISOString() },
+        { ex: JOB_TTL_SECONDS },
+    );
+}
+
+function formatDate(date: string): string {
+    return date.slice(0, 10);
+}
+
+function getExportFilename(job: ExportJob): string {
+    return `email-analytics-rows-${formatDate(job.startDate)}-${formatDate(job.endDate)}.${job.format}`;
+}
+
+function getExportObjectKey(job: ExportJob): string {
+    return `email-analytics/${job.id}.${job.format}`;
+}
+
+/** Starts a background export of the delivery log of a period. */
+export async function startExportJob(
+    params: Pick<ExportJob, "requestedBy" | "userId" | "format"> & { startDate: Date; endDate: Date },
+): Promise<ExportJob> {
+    const now = new Date().toISOString();
+    const job: ExportJob = {
+        id: randomUUID(),
+        requestedBy: params.requestedBy,
+        userId: params.userId,
+        format: params.format,
+        startDate: params.startDate.toISOString(),
+        endDate: params.endDate.toISOString(),
+        status: "pending",
+        rowCount: 0,
+        createdAt: now,
+        updatedAt: now,
+    };
+
+    await redis.set<ExportJob>(`${JOB_KEY_PREFIX}${job.id}`, job, { ex: JOB_TTL_SECONDS });
+    await getExportJobsQueue().enqueue([{ jobId: job.id }]);
+
+    return (await getExportJob(job.id)) || job;
+}
+
+/** Returns a short-lived link to the file of a completed export. */
+export async function getExportDownloadUrl(job: ExportJob): Promise<string> {
+    return getSignedUrl(
+        s3,
+        new GetObjectCommand({
+            Bucket: process.env.ANALYTICS_EXPORTS_BUCKET!,
+            Key: getExportObjectKey(job),
+            ResponseContentDisposition: `attachment; filename="${getExportFilename(job)}"`,
+        }),
+        { expiresIn: DOWNLOAD_URL_TTL_SECONDS },
+    );
+}
+
+/**
+ * Worker stage: streams the delivery log into S3 one page at a time, so
+ * neither the rows nor the file are ever held in memory as a whole.
+ */
+export async function processExportWriteJob({ jobId }: ExportWriteJob, context: JobContext): Promise<void> {
+    const job = await getExportJob(jobId);
+    if (!job) {
+        console.log(`Skipping export job ${jobId}: it expired before it was processed`);
+        return;
+    }
+
+    const { format, startDate, endDate, userId } = job;
+
+    await updateExportJob(jobId, { status: "running", rowCount: 0 });
+
+    try {
+        let rowCount = 0;
+
+        async function* lines(): AsyncGenerator<string> {
+            const header = formatExportHeader(format, DELIVERY_LOG_EXPORT_COLUMNS);
+            if (header) {
+                yield header;
+            }
+
+            for await (const entries of readDeliveryLogPages(new Date(startDate), new Date(endDate), { userId })) {
+                yield formatExportRows(format, DELIVERY_LOG_EXPORT_COLUMNS, entries);
+                rowCount += entries.length;
+                await updateExportJob(jobId, { rowCount });
+            }
+        }
+
+        await new Upload({
+            client: s3,
+            params: {
+                Bucket: process.env.ANALYTICS_EXPORTS_BUCKET!,
+                Key: getExportObjectKey(job),
+                Body: Readable.from(lines()),
+                ContentType: EXPORT_CONTENT_TYPES[format],
+            },
+        }).done();
+
+        await updateExportJob(jobId, { status: "completed", rowCount });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+
+        console.error(`Export job ${jobId} failed (attempt ${context.attempt}/${context.maxAttempts}):`, errorMessage);
+
+        if (context.attempt >= context.maxAttempts) {
+            await updateExportJob(jobId, { status: "failed", error: errorMessage });
+        } else {
+            await updateExportJob(jobId, { status: "pending" });
+        }
+
+        throw error;
+    }
+}
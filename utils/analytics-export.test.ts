@@ -0,0 +1,95 @@
+import { beforeAll, describe, expect, it, mock } from "bun:test";
+
+import type { EmailDeliveryLogEntry, EmailDeliveryLogQuery } from "./email-analytics";
+
+const entry = (id: string, overrides: Partial<EmailDeliveryLogEntry> = {}): EmailDeliveryLogEntry => ({
+    id,
+    message_id: "5f2b8c1e-job",
+    email: "reader@example.com",
+    user_id: "8d7c6b5a-4f3e-4d2c-9b1a-0f9e8d7c6b5a",
+    status: "sent",
+    delivery_status: "delivered",
+    error_message: null,
+    frequency: "weekly",
+    platforms: ["medium", "x"],
+    followings_count: 4,
+    total_contents_count: 12,
+    sent_at: "2026-10-19T08:00:00.000Z",
+    feedback_at: "2026-10-19T08:00:05.000Z",
+    timezone: "Europe/Istanbul",
+    send_time: "11:00",
+    processing_time_ms: 1830,
+    ses_message_id: "0102018f-delivery",
+    feedback_detail: null,
+    ...overrides,
+});
+
+const pages = [
+    { entries: [entry("a"), entry("b")], nextCursor: "cursor-1" },
+    { entries: [entry("c")], nextCursor: null },
+];
+const getEmailDeliveryLog = mock(async (_start: Date, _end: Date, query: EmailDeliveryLogQuery) =>
+    query.cursor === "cursor-1" ? pages[1] : pages[0]
+);
+
+mock.module("./email-analytics", () => ({ getEmailDeliveryLog }));
+
+describe("analytics export", () => {
+    let analyticsExport: typeof import("./analytics-export");
+
+    beforeAll(async () => {
+        analyticsExport = await import("./analytics-export");
+    });
+
+    it("exports every delivery log column", () => {
+        const csv = analyticsExport.formatExport("csv", analyticsExport.DELIVERY_LOG_EXPORT_COLUMNS, [entry("a")]);
+
+        expect(csv).toBe(
+            "id,message_id,sent_at,email,user_id,status,delivery_status,frequency,platforms,followings_count," +
+            "total_contents_count,feedback_at,error_message,timezone,send_time,processing_time_ms,ses_message_id," +
+            "feedback_detail\r\n" +
+            "a,5f2b8c1e-job,2026-10-19T08:00:00.000Z,reader@example.com,8d7c6b5a-4f3e-4d2c-9b1a-0f9e8d7c6b5a,sent," +
+            "delivered,weekly,medium;x,4,12,2026-10-19T08:00:05.000Z,,Europe/Istanbul,11:00,1830,0102018f-delivery," +
+            "\r\n"
+        );
+    });
+
+    it("neutralizes cells a spreadsheet would run as formulas", () => {
+        const csv = analyticsExport.formatExportRows("csv", ["email", "error_message", "feedback_detail"], [
+            entry("a", {
+                email: "@SUM(1+1)@example.com",
+                error_message: "=HYPERLINK(\"http://evil.example\",\"click\")",
+                feedback_detail: "-2+3",
+            }),
+            entry("b", { email: "+1@example.com", error_message: "\tcmd", feedback_detail: "smtp; 550" }),
+        ]);
+
+        expect(csv).toBe(
+            "'@SUM(1+1)@example.com,\"'=HYPERLINK(\"\"http://evil.example\"\",\"\"click\"\")\",'-2+3\r\n" +
+            "'+1@example.com,'\tcmd,smtp; 550\r\n"
+        );
+    });
+
+    it("leaves numbers and NDJSON values as they are", () => {
+        const buckets = [{ bucket: "2026-10-19", sent: -1, failed: 0, skipped: 0, suppressed: 0, bounces: 0, complaints: 0 }];
+
+        expect(analyticsExport.formatExport("csv", analyticsExport.BUCKET_EXPORT_COLUMNS, buckets))
+            .toEndWith("2026-10-19,-1,0,0,0,0,0\r\n");
+        expect(analyticsExport.formatExport("ndjson", ["email"], [entry("a", { email: "=1" })]))
+            .toBe("{\"email\":\"=1\"}\n");
+    });
+
+    it("reads the delivery log page by page until the last cursor", async () => {
+        const read: string[][] = [];
+        for await (const entries of analyticsExport.readDeliveryLogPages(
+            new Date("2026-10-01T00:00:00Z"),
+            new Date("2026-10-19T23:59:59Z"),
+            { userId: "8d7c6b5a-4f3e-4d2c-9b1a-0f9e8d7c6b5a" },
+        )) {
+            read.push(entries.map((e) => e.id));
+        }
+
+        expect(read).toEqual([["a", "b"], ["c"]]);
+        expect(getEmailDeliveryLog.mock.calls.map(([, , query]) => query.cursor)).toEqual([undefined, "cursor-1"]);
+    });
+});
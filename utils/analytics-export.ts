@@ -0,0 +1,125 @@
+import {
+    EmailAnalyticsBucket,
+    EmailDeliveryLogEntry,
+    EmailDeliveryLogQuery,
+    getEmailDeliveryLog,
+} from "./email-analytics";
+
+export type ExportFormat = "csv" | "ndjson";
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+    csv: "text/csv; charset=utf-8",
+    ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+// Stays under PostgREST's default max-rows, including the look-ahead row.
+const EXPORT_PAGE_SIZE = 500;
+// Spreadsheet apps evaluate cells starting with these as formulas.
+const FORMULA_PREFIX_PATTERN = /^[=+\-@\t\r]/;
+
+// Column order is part of the export format; append new columns at the end.
+export const DELIVERY_LOG_EXPORT_COLUMNS = [
+    "id",
+    "message_id",
+    "sent_at",
+    "email",
+    "user_id",
+    "status",
+    "delivery_status",
+    "frequency",
+    "platforms",
+    "followings_count",
+    "total_contents_count",
+    "feedback_at",
+    "error_message",
+    "timezone",
+    "send_time",
+    "processing_time_ms",
+    "ses_message_id",
+    "feedback_detail",
+] as const satisfies ReadonlyArray<keyof EmailDeliveryLogEntry>;
+
+export const BUCKET_EXPORT_COLUMNS = [
+    "bucket",
+    "sent",
+    "failed",
+    "skipped",
+    "suppressed",
+    "bounces",
+    "complaints",
+] as const satisfies ReadonlyArray<keyof EmailAnalyticsBucket>;
+
+type ExportValue = string | number | boolean | null | undefined | string[];
+
+/**
+ * RFC 4180 escaping: fields with quotes, commas or line breaks are quoted.
+ * Text that a spreadsheet would run as a formula is prefixed with a quote.
+ */
+function escapeCsvField(value: ExportValue): string {
+    if (value === null || value === undefined) {
+        return "";
+    }
+
+    let text = Array.isArray(value) ? value.join(";") : String(value);
+    if (typeof value !== "number" && FORMULA_PREFIX_PATTERN.test(text)) {
+        text = `'${text}`;
+    }
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** The CSV header line; NDJSON exports have none. */
+export function formatExportHeader(format: ExportFormat, columns: ReadonlyArray<string>): string {
+    return format === "csv" ? `${columns.join(",")}\r\n` : "";
+}
+
+/** Formats rows without the header, so an export can be written page by page. */
+export function formatExportRows<T extends Record<string, unknown>>(
+    format: ExportFormat,
+    columns: ReadonlyArray<keyof T & string>,
+    rows: T[],
+): string {
+    if (format === "ndjson") {
+        return rows
+            .map((row) => JSON.stringify(Object.fromEntries(columns.map((column) => [column, row[column] ?? null]))))
+            .map((line) => `${line}\n`)
+            .join("");
+    }
+
+    return rows
+        .map((row) => columns.map((column) => escapeCsvField(row[column] as ExportValue)).join(","))
+        .map((line) => `${line}\r\n`)
+        .join("");
+}
+
+export function formatExport<T extends Record<string, unknown>>(
+    format: ExportFormat,
+    columns: ReadonlyArray<keyof T & string>,
+    rows: T[],
+): string {
+    return formatExportHeader(format, columns) + formatExportRows(format, columns, rows);
+}
+
+/**
+ * Reads the delivery log of a period page by page, newest first. Only one
+ * page is held at a time, whatever the size of the period.
+ */
+export async function* readDeliveryLogPages(
+    startDate: Date,
+    endDate: Date,
+    query: Omit<EmailDeliveryLogQuery, "limit" | "cursor">,
+): AsyncGenerator<EmailDeliveryLogEntry[]> {
+    let cursor: string | undefined;
+
+    do {
+        const page = await getEmailDeliveryLog(startDate, endDate, {
+            ...query,
+            limit: EXPORT_PAGE_SIZE,
+            cursor,
+        });
+        if (page.entries.length > 0) {
+            yield page.entries;
+        }
+        cursor = page.nextCursor || undefined;
+    } while (cursor);
+}
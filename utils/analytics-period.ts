@@ -0,0 +1,86 @@
+import type { TimeSeriesGranularity } from "./email-analytics";
+
+export const ANALYTICS_PERIODS = ["today", "yesterday", "last_7_days", "last_30_days", "last_90_days", "all_time"] as const;
+
+export type AnalyticsPeriod = (typeof ANALYTICS_PERIODS)[number];
+
+export type AnalyticsRange = {
+    startDate: Date;
+    endDate: Date;
+};
+
+// Hourly buckets over longer ranges get too many to be useful in a chart.
+const MAX_HOURLY_RANGE_MS = 31 * 24 * 60 * 60 * 1000;
+
+export class InvalidAnalyticsRangeError extends Error {
+    constructor(message = "Invalid date format. Use ISO 8601 format.") {
+        super(message);
+        this.name = "InvalidAnalyticsRangeError";
+    }
+}
+
+export function getPeriodDates(period: string): AnalyticsRange {
+    const now = new Date();
+    const endDate = new Date();
+    let startDate = new Date();
+
+    switch (period) {
+        case "today":
+            startDate.setHours(0, 0, 0, 0);
+            break;
+        case "yesterday":
+            startDate.setDate(now.getDate() - 1);
+            startDate.setHours(0, 0, 0, 0);
+            endDate.setDate(now.getDate() - 1);
+            endDate.setHours(23, 59, 59, 999);
+            break;
+        case "last_7_days":
+            startDate.setDate(now.getDate() - 7);
+            startDate.setHours(0, 0, 0, 0);
+            break;
+        case "last_30_days":
+            startDate.setDate(now.getDate() - 30);
+            startDate.setHours(0, 0, 0, 0);
+            break;
+        case "last_90_days":
+            startDate.setDate(now.getDate() - 90);
+            startDate.setHours(0, 0, 0, 0);
+            break;
+        case "all_time":
+            startDate = new Date(0);
+            break;
+        default:
+            startDate.setDate(now.getDate() - 7);
+            startDate.setHours(0, 0, 0, 0);
+    }
+
+    return { startDate, endDate };
+}
+
+/**
+ * Explicit `startDate`/`endDate` take precedence over `period`, which
+ * defaults to the last 7 days. Shared by every analytics route so exports
+ * cover exactly what the stats show.
+ */
+export function resolveAnalyticsRange(query: {
+    startDate?: string;
+    endDate?: string;
+    period?: AnalyticsPeriod;
+}): AnalyticsRange {
+    if (query.startDate && query.endDate) {
+        const startDate = new Date(query.startDate);
+        const endDate = new Date(query.endDate);
+
+        if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+            throw new InvalidAnalyticsRangeError();
+        }
+
+        return { startDate, endDate };
+    }
+
+    return getPeriodDates(query.period || "last_7_days");
+}
+
+export function isGranularityAllowed(range: AnalyticsRange, granularity: TimeSeriesGranularity): boolean {
+    return granularity !== "hour" || range.endDate.getTime() - range.startDate.getTime() <= MAX_HOURLY_RANGE_MS;
+}
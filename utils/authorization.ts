@@ -0,0 +1,30 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+
+export type CallerRole = "admin" | "user";
+
+/** Context the authorizer attaches to every allowed request. */
+export type AuthorizerContext = {
+    role: CallerRole;
+};
+
+export type Caller = {
+    userId: string;
+    role: CallerRole;
+};
+
+/**
+ * Reads the caller set by `supabase-authorizer`. Requests without a role in
+ * the context, e.g. from policies cached before roles were added, are
+ * treated as regular users.
+ */
+export function getCaller(event: APIGatewayProxyEvent): Caller | null {
+    const authorizer = event.requestContext.authorizer;
+    if (!authorizer?.principalId) {
+        return null;
+    }
+
+    return {
+        userId: authorizer.principalId,
+        role: authorizer.role === "admin" ? "admin" : "user",
+    };
+}
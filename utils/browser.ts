@@ -0,0 +1,229 @@
+import Stealth from "puppeteer-extra-plugin-stealth";
+import type { Browser, HTTPRequest, Page, ResourceType } from "puppeteer-core";
+import chromium from "@sparticuz/chromium";
+import puppeteer from "puppeteer-extra";
+
+export type ScrollOptions = {
+  maxDurationMs: number;
+  maxScrolls: number;
+  delayMs: number;
+};
+
+export type PageOptions = {
+  /** Hard limit for the whole callback; the page is closed when it passes. */
+  timeoutMs?: number;
+  /** Default timeout for navigation and `waitFor*` calls on the page. */
+  navigationTimeoutMs?: number;
+  blockResourceTypes?: ResourceType[];
+};
+
+// Leaves room for a 55 s scroll after navigation while staying under the
+// 90 s timeout of the following-jobs worker.
+const DEFAULT_PAGE_TIMEOUT_MS = 80000;
+const DEFAULT_NAVIGATION_TIMEOUT_MS = 20000;
+const DEFAULT_BLOCKED_RESOURCE_TYPES: ResourceType[] = ["image", "media", "font"];
+const BLOCKED_HOSTS = [
+  "google-analytics.com",
+  "googletagmanager.com",
+  "doubleclick.net",
+  "googlesyndication.com",
+  "branch.io",
+  "sentry.io",
+];
+// Long-lived Chromium processes leak memory, so the warm browser is replaced
+// after serving this many pages.
+const MAX_PAGES_PER_BROWSER = 50;
+
+type ManagedBrowser = {
+  browser: Promise<Browser>;
+  pagesServed: number;
+  activePages: number;
+  retired: boolean;
+  closed: boolean;
+};
+
+let current: ManagedBrowser | undefined;
+
+export async function launchBrowser(): Promise<Browser> {
+  const isLocal = Boolean(process.env.PUPPETEER_CHROMIUM_PATH);
+  const executablePath = isLocal
+    ? process.env.PUPPETEER_CHROMIUM_PATH
+    : await chromium.executablePath();
+
+  return (await puppeteer.use(Stealth()).launch({
+    args: isLocal ? [] : chromium.args,
+    executablePath,
+    headless: isLocal ? true : "shell",
+  })) as Browser;
+}
+
+function retireBrowser(managed: ManagedBrowser): void {
+  managed.retired = true;
+  if (current === managed) {
+    current = undefined;
+  }
+
+  // Pages of concurrent callers keep running on a retired browser until they
+  // are done; the last one to finish closes it.
+  if (managed.activePages === 0 && !managed.closed) {
+    managed.closed = true;
+    managed.browser
+      .then((browser) => browser.close())
+      .catch((error) => console.error("Failed to close browser:", error));
+  }
+}
+
+/**
+ * Returns the browser kept warm in this Lambda container, launching a new
+ * one when there is none yet or the previous one crashed or was recycled.
+ */
+async function acquireBrowser(): Promise<ManagedBrowser> {
+  const existing = current;
+  if (existing) {
+    const browser = await existing.browser.catch(() => undefined);
+    if (current !== existing) {
+      return acquireBrowser();
+    }
+    if (browser?.connected && existing.pagesServed < MAX_PAGES_PER_BROWSER) {
+      return existing;
+    }
+
+    retireBrowser(existing);
+  }
+
+  const managed: ManagedBrowser = {
+    browser: launchBrowser(),
+    pagesServed: 0,
+    activePages: 0,
+    retired: false,
+    closed: false,
+  };
+  current = managed;
+
+  managed.browser.then(
+    (browser) => browser.once("disconnected", () => retireBrowser(managed)),
+    () => retireBrowser(managed),
+  );
+
+  return managed;
+}
+
+function isBlockedRequest(request: HTTPRequest, blockedTypes: Set<ResourceType>): boolean {
+  if (blockedTypes.has(request.resourceType())) {
+    return true;
+  }
+
+  try {
+    const { hostname } = new URL(request.url());
+    return BLOCKED_HOSTS.some((host) => hostname === host || hostname.endsWith(`.${host}`));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Opens a page on the warm browser with unneeded resources blocked and
+ * timeouts applied, and always closes it afterwards. A page crash recycles
+ * the browser so the next call starts from a healthy one.
+ */
+export async function withPage<T>(
+  fn: (page: Page) => Promise<T>,
+  opts: PageOptions = {},
+): Promise<T> {
+  const {
+    timeoutMs = DEFAULT_PAGE_TIMEOUT_MS,
+    navigationTimeoutMs = DEFAULT_NAVIGATION_TIMEOUT_MS,
+    blockResourceTypes = DEFAULT_BLOCKED_RESOURCE_TYPES,
+  } = opts;
+  const managed = await acquireBrowser();
+  const browser = await managed.browser;
+  const blockedTypes = new Set(blockResourceTypes);
+  let timer: NodeJS.Timeout | undefined;
+
+  managed.pagesServed++;
+  managed.activePages++;
+
+  let page: Page;
+  try {
+    page = await browser.newPage();
+  } catch (error) {
+    managed.activePages--;
+    retireBrowser(managed);
+    throw error;
+  }
+
+  page.setDefaultTimeout(navigationTimeoutMs);
+  page.on("error", (error) => {
+    console.error("Page crashed, recycling browser:", error);
+    retireBrowser(managed);
+  });
+
+  page.on("request", (request) => {
+    if (request.isInterceptResolutionHandled()) return;
+
+    if (isBlockedRequest(request, blockedTypes)) {
+      request.abort("blockedbyclient").catch(() => undefined);
+    } else {
+      request.continue().catch(() => undefined);
+    }
+  });
+
+  try {
+    await page.setRequestInterception(true);
+
+    return await Promise.race([
+      fn(page),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Page timed out after ${timeoutMs}ms`)),
+          timeoutMs,
+        );
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+    await page.close().catch(() => undefined);
+
+    managed.activePages--;
+    if (managed.retired) {
+      retireBrowser(managed);
+    }
+  }
+}
+
+export async function scrollUntilEnd(
+  page: Page,
+  opts: ScrollOptions,
+  onScroll?: () => Promise<boolean | void>,
+): Promise<void> {
+  const { maxDurationMs, maxScrolls, delayMs } = opts;
+  const start = Date.now();
+  let previousHeight = await page.evaluate(
+    "document.body.scrollHeight || document.documentElement.scrollHeight",
+  );
+
+  for (let i = 0; i < maxScrolls; i++) {
+    await page.evaluate(
+      "window.scrollTo(0, document.body.scrollHeight || document.documentElement.scrollHeight)",
+    );
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+
+    const newHeight = await page.evaluate(
+      "document.body.scrollHeight || document.documentElement.scrollHeight",
+    );
+
+    if (newHeight === previousHeight) {
+      break;
+    }
+
+    previousHeight = newHeight;
+
+    if (onScroll && (await onScroll()) === false) {
+      break;
+    }
+
+    if (Date.now() - start > maxDurationMs) {
+      break;
+    }
+  }
+}
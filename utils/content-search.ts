@@ -0,0 +1,208 @@
+import { ContentItem, PlatformKeys } from "../contentFetcherStrategies/contentStrategyFactory";
+import { TimeWindow } from "./time-window";
+import { Search } from "@upstash/search";
+import { load } from "cheerio";
+import { createHash } from "crypto";
+
+const searchClient = new Search({
+    url: process.env.UPSTASH_SEARCH_REST_URL!,
+    token: process.env.UPSTASH_SEARCH_REST_TOKEN!,
+});
+
+// Searched fields only; everything used for filtering lives in the metadata
+// so it does not skew relevance.
+type ContentDocument = {
+    title: string;
+    author: string;
+    description: string;
+};
+
+type ContentMetadata = {
+    contentId: string;
+    url: string;
+    type: ContentItem["type"];
+    platform: PlatformKeys;
+    /** `PLATFORM:username` with a lower-cased username. */
+    creator: string;
+    /** Publication time in epoch milliseconds, for range filters. */
+    publishedAt: number;
+};
+
+const index = searchClient.index<ContentDocument, ContentMetadata>("contents");
+
+const MAX_DESCRIPTION_LENGTH = 2000;
+const SNIPPET_LENGTH = 160;
+const INDEX_BATCH_SIZE = 100;
+
+export type ContentSearchQuery = {
+    query: string;
+    platform?: PlatformKeys;
+    window?: TimeWindow;
+    limit: number;
+};
+
+export type ContentSearchHit = {
+    id: string;
+    title: string;
+    url: string;
+    author: string;
+    platform: PlatformKeys;
+    type: ContentItem["type"];
+    publishedAt: string;
+    score: number;
+    /** HTML-escaped text with matched terms wrapped in `<mark>`. */
+    highlights: {
+        title: string;
+        description: string;
+    };
+};
+
+export function creatorKey(platformName: string, username: string): string {
+    return `${platformName.toUpperCase()}:${username.toLowerCase()}`;
+}
+
+function toPlainText(html: string): string {
+    return load(html).text().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Indexes freshly fetched contents of `username`. Document ids are hashes of
+ * the creator and the content URL, so refetching the same items updates them
+ * in place, while a URL shared by two creators (e.g. a cross-post, or a FEED
+ * and a SUBSTACK creator of one publication) keeps a document for each.
+ */
+export async function indexContents(
+    platformName: PlatformKeys,
+    username: string,
+    contents: ContentItem[],
+): Promise<void> {
+    const creator = creatorKey(platformName, username);
+    const documents = contents.map((content) => ({
+        id: createHash("sha256").update(`${creator}\n${content.url}`).digest("hex"),
+        content: {
+            title: content.title,
+            author: content.author,
+            description: toPlainText(content.description || "").slice(0, MAX_DESCRIPTION_LENGTH),
+        },
+        metadata: {
+            contentId: content.id,
+            url: content.url,
+            type: content.type,
+            platform: platformName,
+            creator,
+            publishedAt: new Date(content.publishedAt).getTime(),
+        },
+    }));
+
+    for (let i = 0; i < documents.length; i += INDEX_BATCH_SIZE) {
+        await index.upsert(documents.slice(i, i + INDEX_BATCH_SIZE));
+    }
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function getTermsPattern(query: string): RegExp | null {
+    const terms = query
+        .split(/\s+/)
+        .map((term) => term.trim())
+        .filter((term) => term.length > 1)
+        .map(escapeRegExp);
+
+    return terms.length > 0 ? new RegExp(`(${terms.join("|")})`, "gi") : null;
+}
+
+function highlight(text: string, pattern: RegExp | null): string {
+    if (!pattern) {
+        return escapeHtml(text);
+    }
+
+    return text
+        .split(pattern)
+        .map((part, i) => (i % 2 === 1 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part)))
+        .join("");
+}
+
+/**
+ * Cuts a window of the description around the first matched term. Semantic
+ * matches may contain none of the terms, in which case the opening is used.
+ */
+function getSnippet(text: string, pattern: RegExp | null): string {
+    if (text.length <= SNIPPET_LENGTH) {
+        return text;
+    }
+
+    const match = pattern ? new RegExp(pattern.source, "i").exec(text) : null;
+    const start = match ? Math.max(0, match.index - Math.floor(SNIPPET_LENGTH / 3)) : 0;
+    const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+    return `${start > 0 ? "…" : ""}${text.slice(start, end).trim()}${end < text.length ? "…" : ""}`;
+}
+
+/** Searches the contents of the given creators, best matches first. */
+export async function searchContents(
+    creatorKeys: string[],
+    query: ContentSearchQuery,
+): Promise<ContentSearchHit[]> {
+    if (creatorKeys.length === 0) {
+        return [];
+    }
+
+    const results = await index.search({
+        query: query.query,
+        limit: query.limit,
+        filter: {
+            AND: [
+                { "@metadata.creator": { in: creatorKeys } },
+                ...(query.platform ? [{ "@metadata.platform": { equals: query.platform } }] : []),
+                ...(query.window
+                    ? [
+                        { "@metadata.publishedAt": { greaterThanOrEquals: query.window.from.getTime() } },
+                        { "@metadata.publishedAt": { lessThan: query.window.to.getTime() } },
+                    ]
+                    : []),
+            ],
+        },
+    });
+
+    const pattern = getTermsPattern(query.query);
+    // Documents indexed when ids were hashes of the URL alone duplicate the
+    // current ones of the same creator, so only the best match is kept.
+    const seen = new Set<string>();
+
+    return results.flatMap((result) => {
+        if (!result.metadata) {
+            return [];
+        }
+
+        const key = `${result.metadata.creator}\n${result.metadata.url}`;
+        if (seen.has(key)) {
+            return [];
+        }
+        seen.add(key);
+
+        return [{
+            id: result.metadata.contentId,
+            title: result.content.title,
+            url: result.metadata.url,
+            author: result.content.author,
+            platform: result.metadata.platform,
+            type: result.metadata.type,
+            publishedAt: new Date(result.metadata.publishedAt).toISOString(),
+            score: result.score,
+            highlights: {
+                title: highlight(result.content.title, pattern),
+                description: highlight(getSnippet(result.content.description, pattern), pattern),
+            },
+        }];
+    });
+}
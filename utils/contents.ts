@@ -0,0 +1,206 @@
+import {
+    ContentFetcherStrategy,
+    ContentFetcherStrategyFactory,
+    ContentItem,
+    PlatformKeys,
+    SinceDate,
+} from "../contentFetcherStrategies/contentStrategyFactory";
+import { indexContents } from "./content-search";
+import { InMemoryJobQueue, JobQueue, SqsJobQueue } from "./job-queue";
+import { createCacheBackend, GetOrLoadOptions, SwrCache } from "./swr-cache";
+import { getCoveringWindowName, isWithinWindow, resolveNamedWindow, TimeWindow } from "./time-window";
+import { Redis } from "@upstash/redis";
+
+const redis = new Redis({
+    url: process.env.UPSTASH_REDIS_REST_URL,
+    token: process.env.UPSTASH_REDIS_REST_TOKEN,
+});
+
+// Hash per platform mapping lower-cased usernames to the newest publication
+// date seen in any fetch, so followings can be filtered by recent activity.
+const LAST_PUBLISHED_KEY_PREFIX = "creators:last-published:";
+
+// Contents change often, so they go stale after an hour, but a stale list is
+// still served for up to a day while it is refetched. The lock outlives a
+// refresh job (90 s in serverless.yml) plus some time queued.
+const contentsCache = new SwrCache(createCacheBackend(), {
+    softTtlSeconds: 60 * 60,
+    hardTtlSeconds: 24 * 60 * 60,
+    lockTtlSeconds: 2 * 60,
+});
+
+// Must match maxReceiveCount of the redrive policy in serverless.yml.
+export const MAX_CONTENT_REFRESH_JOB_ATTEMPTS = 2;
+
+export type CachedContentsDTO = {
+    contents: ContentItem[];
+    fetchedAt: Date;
+};
+
+export type ContentRefreshJob = {
+    platformName: PlatformKeys;
+    username: string;
+    windowName: SinceDate;
+    /** Owner of the cache lock taken when the refresh was scheduled. */
+    lockOwner: string;
+};
+
+let contentRefreshQueue: JobQueue<ContentRefreshJob> | undefined;
+
+export function getContentRefreshQueue(): JobQueue<ContentRefreshJob> {
+    contentRefreshQueue ??= process.env.CONTENT_REFRESH_JOBS_QUEUE_URL
+        ? new SqsJobQueue<ContentRefreshJob>(process.env.CONTENT_REFRESH_JOBS_QUEUE_URL)
+        : new InMemoryJobQueue<ContentRefreshJob>(processContentRefreshJob, MAX_CONTENT_REFRESH_JOB_ATTEMPTS);
+
+    return contentRefreshQueue;
+}
+
+function getContentsCacheKey(platformName: PlatformKeys, username: string, windowName: SinceDate): string {
+    return `contents:${platformName}:${username}:${windowName}`;
+}
+
+async function loadContents(
+    fetchingStrategy: ContentFetcherStrategy,
+    platformName: PlatformKeys,
+    username: string,
+    windowName: SinceDate,
+): Promise<ContentItem[]> {
+    const contents = await fetchingStrategy.fetchContent(username, resolveNamedWindow(windowName));
+
+    await recordLastPublished(platformName, username, contents);
+
+    try {
+        await indexContents(platformName, username, contents);
+    } catch (error) {
+        console.error(`Failed to index contents of ${username}:`, error);
+    }
+
+    return contents;
+}
+
+/**
+ * Returns the contents of `username` published within `window`. Fetches are
+ * cached per named window that covers the requested one, so windows that
+ * differ per subscriber (e.g. "since last digest") share one cached fetch.
+ * Stale fetches are served while a content refresh job refetches them.
+ */
+export async function getCachedContents(
+    fetchingStrategy: ContentFetcherStrategy,
+    platformName: PlatformKeys,
+    username: string,
+    window: TimeWindow,
+    options: GetOrLoadOptions = {},
+): Promise<CachedContentsDTO> {
+    const windowName = getCoveringWindowName(window);
+    const cacheKey = getContentsCacheKey(platformName, username, windowName);
+
+    const { value: contents, storedAt } = await contentsCache.getOrLoad(
+        cacheKey,
+        () => loadContents(fetchingStrategy, platformName, username, windowName),
+        {
+            scheduleRefresh: (lockOwner) => getContentRefreshQueue().enqueue([
+                { platformName, username, windowName, lockOwner },
+            ]),
+            ...options,
+        },
+    );
+
+    return {
+        contents: contents.filter((content) => isWithinWindow(content.publishedAt, window)),
+        fetchedAt: storedAt,
+    };
+}
+
+/**
+ * Returns the cached contents of `username` published within `window`, even
+ * stale ones, without fetching on a miss. For request paths that cannot wait
+ * for a browser scrape.
+ */
+export async function peekCachedContents(
+    platformName: PlatformKeys,
+    username: string,
+    window: TimeWindow,
+): Promise<CachedContentsDTO | null> {
+    const cached = await contentsCache.read<ContentItem[]>(
+        getContentsCacheKey(platformName, username, getCoveringWindowName(window))
+    );
+    if (!cached) {
+        return null;
+    }
+
+    return {
+        contents: cached.value.filter((content) => isWithinWindow(content.publishedAt, window)),
+        fetchedAt: cached.storedAt,
+    };
+}
+
+/**
+ * Worker stage: refetches a stale contents cache entry under the lock taken
+ * when the refresh was scheduled. Redelivered or outdated jobs find the lock
+ * taken by someone else and are skipped.
+ */
+export async function processContentRefreshJob(job: ContentRefreshJob): Promise<void> {
+    const { platformName, username, windowName, lockOwner } = job;
+
+    const refreshed = await contentsCache.completeRefresh(
+        getContentsCacheKey(platformName, username, windowName),
+        lockOwner,
+        () => loadContents(ContentFetcherStrategyFactory.getStrategy(platformName), platformName, username, windowName),
+    );
+    if (!refreshed) {
+        console.log(`Skipping refresh of ${platformName} contents of ${username}: another refresh holds the lock`);
+    }
+}
+
+async function recordLastPublished(
+    platformName: PlatformKeys,
+    username: string,
+    contents: ContentItem[],
+): Promise<void> {
+    const latest = Math.max(...contents.map((content) => new Date(content.publishedAt).getTime()));
+    if (!Number.isFinite(latest)) {
+        return;
+    }
+
+    try {
+        await recordLastPublishedAt(platformName, username, new Date(latest));
+    } catch (error) {
+        console.error(`Failed to record last publication of ${username}:`, error);
+    }
+}
+
+export async function recordLastPublishedAt(
+    platformName: string,
+    username: string,
+    publishedAt: Date,
+): Promise<void> {
+    await redis.hset(`${LAST_PUBLISHED_KEY_PREFIX}${platformName}`, {
+        [username.toLowerCase()]: publishedAt.toISOString(),
+    });
+}
+
+/**
+ * Returns the newest known publication date per username. Creators whose
+ * contents were never fetched are missing from the result.
+ */
+export async function getLastPublishedDates(
+    platformName: string,
+    usernames: string[],
+): Promise<Map<string, Date>> {
+    const lastPublished = new Map<string, Date>();
+
+    if (usernames.length === 0) {
+        return lastPublished;
+    }
+
+    const keys = usernames.map((username) => username.toLowerCase());
+    const values = await redis.hmget<Record<string, string>>(`${LAST_PUBLISHED_KEY_PREFIX}${platformName}`, ...keys);
+
+    for (const [username, value] of Object.entries(values || {})) {
+        if (value) {
+            lastPublished.set(username, new Date(value));
+        }
+    }
+
+    return lastPublished;
+}
@@ -0,0 +1,155 @@
+import { FollowingFetcherStrategyFactory } from "../followingFetcherStrategies/followingFetcherFactory";
+import { ContentFetcherStrategyFactory, PlatformKeys } from "../contentFetcherStrategies/contentStrategyFactory";
+import { getCachedContents, getLastPublishedDates, peekCachedContents, recordLastPublishedAt } from "./contents";
+import { mapWithConcurrency } from "./job-queue";
+import { resolveNamedWindow } from "./time-window";
+import { Redis } from "@upstash/redis";
+
+const redis = new Redis({
+    url: process.env.UPSTASH_REDIS_REST_URL,
+    token: process.env.UPSTASH_REDIS_REST_TOKEN,
+});
+
+// Profiles change slowly and each one costs a request to the platform, so
+// they are cached per creator, apart from the following lists.
+const PROFILE_KEY_PREFIX = "creators:profile:";
+const PROFILE_TTL_SECONDS = 7 * 24 * 60 * 60;
+// Profiles without a posting frequency are rebuilt sooner, since a content
+// fetch elsewhere may have cached the publication dates in the meantime.
+const PARTIAL_PROFILE_TTL_SECONDS = 24 * 60 * 60;
+const ENRICH_CONCURRENCY = 5;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+// Contents of these platforms are scraped with a headless browser, which does
+// not fit into an API Gateway request for a page of creators, so only cached
+// contents are used for them.
+const BROWSER_CONTENT_PLATFORMS = new Set(["X", "INSTAGRAM"]);
+// A creator whose contents someone else is fetching is left for a later call
+// rather than holding up the whole page.
+const CONTENTS_WAIT_TIMEOUT_MS = 10 * 1000;
+
+export type CreatorProfile = {
+    platform: string;
+    username: string;
+    bio?: string;
+    followerCount?: number;
+    lastPublishedAt?: string;
+    /** Average posts per week over the recent posts the platform exposes. */
+    postsPerWeek?: number;
+    enrichedAt: string;
+};
+
+function profileKey(platformName: string, username: string): string {
+    return `${PROFILE_KEY_PREFIX}${platformName}:${username.toLowerCase()}`;
+}
+
+/** Returns the cached profiles by lower-cased username; misses are left out. */
+export async function getCachedCreatorProfiles(
+    platformName: string,
+    usernames: string[],
+): Promise<Map<string, CreatorProfile>> {
+    const profiles = new Map<string, CreatorProfile>();
+
+    if (usernames.length === 0) {
+        return profiles;
+    }
+
+    const values = await redis.mget<Array<CreatorProfile | null>>(
+        ...usernames.map((username) => profileKey(platformName, username))
+    );
+
+    values.forEach((profile, index) => {
+        if (profile) {
+            profiles.set(usernames[index].toLowerCase(), profile);
+        }
+    });
+
+    return profiles;
+}
+
+function getPostsPerWeek(publishedDates: Date[]): number | undefined {
+    if (publishedDates.length < 2) {
+        return undefined;
+    }
+
+    const times = publishedDates.map((date) => date.getTime());
+    const span = Math.max(...times) - Math.min(...times);
+    if (span <= 0) {
+        return undefined;
+    }
+
+    // n posts span n - 1 intervals.
+    return Math.round(((publishedDates.length - 1) / (span / WEEK_MS)) * 100) / 100;
+}
+
+async function getPublishedDatesFromContents(platformName: string, username: string): Promise<Date[]> {
+    const window = resolveNamedWindow("last_month");
+    const cached = BROWSER_CONTENT_PLATFORMS.has(platformName)
+        ? await peekCachedContents(platformName as PlatformKeys, username, window)
+        : await getCachedContents(
+            ContentFetcherStrategyFactory.getStrategy(platformName),
+            platformName as PlatformKeys,
+            username,
+            window,
+            { waitTimeoutMs: CONTENTS_WAIT_TIMEOUT_MS }
+        );
+
+    return (cached?.contents || []).map((content) => new Date(content.publishedAt));
+}
+
+async function buildCreatorProfile(platformName: string, username: string): Promise<CreatorProfile> {
+    const details = await FollowingFetcherStrategyFactory.getStrategy(platformName).getProfile(username);
+
+    // Platforms without public profile data fall back to the creator's contents.
+    const publishedDates = details.publishedDates?.length
+        ? details.publishedDates
+        : await getPublishedDatesFromContents(platformName, username);
+
+    const latest = Math.max(...publishedDates.map((date) => date.getTime()));
+    let lastPublishedAt = Number.isFinite(latest) ? new Date(latest) : undefined;
+
+    if (lastPublishedAt) {
+        await recordLastPublishedAt(platformName, username, lastPublishedAt);
+    } else {
+        lastPublishedAt = (await getLastPublishedDates(platformName, [username])).get(username.toLowerCase());
+    }
+
+    return {
+        platform: platformName,
+        username,
+        bio: details.bio,
+        followerCount: details.followerCount,
+        lastPublishedAt: lastPublishedAt?.toISOString(),
+        postsPerWeek: getPostsPerWeek(publishedDates),
+        enrichedAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * Returns profiles for `usernames`, enriching and caching the ones that are
+ * not cached yet. A creator whose profile cannot be fetched is left out and
+ * retried on the next call.
+ */
+export async function enrichCreatorProfiles(
+    platformName: string,
+    usernames: string[],
+): Promise<Map<string, CreatorProfile>> {
+    const profiles = await getCachedCreatorProfiles(platformName, usernames);
+    const missing = usernames.filter((username) => !profiles.has(username.toLowerCase()));
+
+    await mapWithConcurrency(missing, ENRICH_CONCURRENCY, async (username) => {
+        try {
+            const profile = await buildCreatorProfile(platformName, username);
+
+            await redis.set<CreatorProfile>(
+                profileKey(platformName, username),
+                profile,
+                { ex: profile.postsPerWeek !== undefined ? PROFILE_TTL_SECONDS : PARTIAL_PROFILE_TTL_SECONDS }
+            );
+            profiles.set(username.toLowerCase(), profile);
+        } catch (error) {
+            console.error(`Failed to enrich ${platformName} profile of ${username}:`, error);
+        }
+    });
+
+    return profiles;
+}
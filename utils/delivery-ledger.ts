@@ -0,0 +1,213 @@
+import { createClient } from "@supabase/supabase-js";
+
+const supabase = createClient(
+    process.env.SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+        auth: {
+            autoRefreshToken: false,
+            persistSession: false,
+        },
+    }
+);
+
+const UNIQUE_VIOLATION = "23505";
+// A claim that was never completed (e.g. the sender timed out before SES
+// answered) can be taken over once it is older than this.
+const STALE_CLAIM_MS = 15 * 60 * 1000;
+const COMPLETE_ATTEMPTS = 3;
+const COMPLETE_RETRY_DELAY_MS = 500;
+
+export type DeliveryFrequency = "daily" | "weekly" | "monthly";
+
+export type DeliveryKey = {
+    user_id: string;
+    frequency: DeliveryFrequency;
+    period: string;
+};
+
+export type DeliveryLedgerEntry = DeliveryKey & {
+    email: string;
+    status: "claimed" | "sent";
+    claimed_at: string;
+    sent_at?: string;
+};
+
+function getDatePartsInTimezone(date: Date, timezone: string): { year: number; month: number; day: number } {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone: timezone,
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+    }).formatToParts(date);
+    const get = (type: Intl.DateTimeFormatPartTypes) =>
+        parseInt(parts.find((part) => part.type === type)!.value);
+
+    return { year: get("year"), month: get("month"), day: get("day") };
+}
+
+function getIsoWeek(year: number, month: number, day: number): { year: number; week: number } {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    const dayOfWeek = date.getUTCDay() || 7;
+
+    // The ISO week belongs to the year of its Thursday.
+    date.setUTCDate(date.getUTCDate() + 4 - dayOfWeek);
+    const weekYear = date.getUTCFullYear();
+    const yearStart = Date.UTC(weekYear, 0, 1);
+    const week = Math.ceil(((date.getTime() - yearStart) / 86400000 + 1) / 7);
+
+    return { year: weekYear, week };
+}
+
+/**
+ * Returns the ledger period a delivery at `date` belongs to, in the user's
+ * timezone: `2026-10-19` for daily, `2026-W43` for weekly, `2026-10` for monthly.
+ */
+export function getDeliveryPeriod(
+    frequency: DeliveryFrequency,
+    date: Date,
+    timezone: string
+): string {
+    const { year, month, day } = getDatePartsInTimezone(date, timezone);
+    const pad = (value: number) => String(value).padStart(2, "0");
+
+    if (frequency === "weekly") {
+        const isoWeek = getIsoWeek(year, month, day);
+        return `${isoWeek.year}-W${pad(isoWeek.week)}`;
+    }
+
+    if (frequency === "monthly") {
+        return `${year}-${pad(month)}`;
+    }
+
+    return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Atomically claims a delivery. Returns false when the period was already
+ * sent or is being sent by another invocation.
+ */
+export async function claimDelivery(key: DeliveryKey, email: string): Promise<boolean> {
+    const claimedAt = new Date();
+
+    const { error } = await supabase
+        .from("newsletter_deliveries")
+        .insert({
+            ...key,
+            email,
+            status: "claimed",
+            claimed_at: claimedAt.toISOString(),
+        });
+
+    if (!error) {
+        return true;
+    }
+
+    if (error.code !== UNIQUE_VIOLATION) {
+        throw new Error(`Failed to claim delivery: ${error.message}`);
+    }
+
+    const { data, error: takeOverError } = await supabase
+        .from("newsletter_deliveries")
+        .update({ claimed_at: claimedAt.toISOString() })
+        .match(key)
+        .eq("status", "claimed")
+        .lt("claimed_at", new Date(claimedAt.getTime() - STALE_CLAIM_MS).toISOString())
+        .select();
+
+    if (takeOverError) {
+        throw new Error(`Failed to claim delivery: ${takeOverError.message}`);
+    }
+
+    return Boolean(data && data.length > 0);
+}
+
+/**
+ * Marks a claimed delivery as sent. Called right after SES accepted the
+ * message, so it retries before giving up: a claim left behind would be
+ * taken over once stale and the email sent again.
+ */
+export async function completeDelivery(key: DeliveryKey): Promise<void> {
+    let lastErrorMessage = "";
+
+    for (let attempt = 1; attempt <= COMPLETE_ATTEMPTS; attempt++) {
+        const { error } = await supabase
+            .from("newsletter_deliveries")
+            .update({ status: "sent", sent_at: new Date().toISOString() })
+            .match(key);
+
+        if (!error) {
+            return;
+        }
+
+        lastErrorMessage = error.message;
+        if (attempt < COMPLETE_ATTEMPTS) {
+            await new Promise((resolve) => setTimeout(resolve, COMPLETE_RETRY_DELAY_MS * attempt));
+        }
+    }
+
+    throw new Error(`Failed to complete delivery: ${lastErrorMessage}`);
+}
+
+export async function releaseDelivery(key: DeliveryKey): Promise<void> {
+    const { error } = await supabase
+        .from("newsletter_deliveries")
+        .delete()
+        .match(key)
+        .eq("status", "claimed");
+
+    if (error) {
+        console.error("Failed to release delivery:", error);
+    }
+}
+
+export async function getRecordedDeliveries(keys: DeliveryKey[]): Promise<Set<string>> {
+    const recorded = new Set<string>();
+
+    if (keys.length === 0) {
+        return recorded;
+    }
+
+    const { data, error } = await supabase
+        .from("newsletter_deliveries")
+        .select("user_id, frequency, period")
+        .in("user_id", [...new Set(keys.map((key) => key.user_id))])
+        .in("period", [...new Set(keys.map((key) => key.period))]);
+
+    if (error) {
+        console.error("Failed to fetch recorded deliveries:", error);
+        return recorded;
+    }
+
+    for (const entry of data as DeliveryKey[]) {
+        recorded.add(getDeliveryKeyId(entry));
+    }
+
+    return recorded;
+}
+
+/** Returns when the last digest of `frequency` was sent to the user, if ever. */
+export async function getLastDeliveredAt(
+    userId: string,
+    frequency: DeliveryFrequency
+): Promise<Date | null> {
+    const { data, error } = await supabase
+        .from("newsletter_deliveries")
+        .select("sent_at")
+        .eq("user_id", userId)
+        .eq("frequency", frequency)
+        .eq("status", "sent")
+        .order("sent_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to fetch last delivery: ${error.message}`);
+    }
+
+    return data?.sent_at ? new Date(data.sent_at) : null;
+}
+
+export function getDeliveryKeyId(key: DeliveryKey): string {
+    return `${key.user_id}:${key.frequency}:${key.period}`;
+}
@@ -0,0 +1,122 @@
+import { beforeAll, beforeEach, describe, expect, it, mock } from "bun:test";
+
+const or = mock((_filter: string) => query);
+const rows = [
+    { id: "7b0e5a52-4f5e-4a51-9d3c-2f1a0b6c8d11", sent_at: "2026-10-19T08:00:00.000Z" },
+    { id: "1c9d4e6f-0a2b-4c3d-8e5f-6a7b8c9d0e1f", sent_at: "2026-10-19T07:00:00.000Z" },
+];
+// Results of awaiting the query itself, as `recordEmailFeedback` does.
+const awaitedResults: unknown[] = [];
+const query = {
+    select: () => query,
+    update: () => query,
+    is: () => query,
+    gte: () => query,
+    lte: () => query,
+    eq: () => query,
+    or,
+    order: () => query,
+    limit: () => query,
+    overrideTypes: async () => ({ data: rows, error: null }),
+    then: (resolve: (result: unknown) => void) => resolve(awaitedResults.shift()),
+};
+
+mock.module("@supabase/supabase-js", () => ({
+    createClient: () => ({
+        from: () => query,
+    }),
+}));
+
+const encode = (cursor: unknown) => Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+describe("getEmailDeliveryLog", () => {
+    let emailAnalytics: typeof import("./email-analytics");
+    const startDate = new Date("2026-10-01T00:00:00Z");
+    const endDate = new Date("2026-10-19T23:59:59Z");
+
+    beforeAll(async () => {
+        emailAnalytics = await import("./email-analytics");
+    });
+
+    beforeEach(() => {
+        or.mockClear();
+    });
+
+    it("continues after the cursor it handed out", async () => {
+        const page = await emailAnalytics.getEmailDeliveryLog(startDate, endDate, { limit: 1 });
+        expect(page.nextCursor).not.toBeNull();
+
+        await emailAnalytics.getEmailDeliveryLog(startDate, endDate, { limit: 1, cursor: page.nextCursor! });
+
+        expect(or.mock.calls).toEqual([[
+            "sent_at.lt.2026-10-19T08:00:00.000Z,and(sent_at.eq.2026-10-19T08:00:00.000Z,id.lt.7b0e5a52-4f5e-4a51-9d3c-2f1a0b6c8d11)",
+        ]]);
+    });
+
+    it.each([
+        ["not base64 JSON", "%%%"],
+        ["an id that is not a uuid", encode({ sentAt: "2026-10-19T08:00:00.000Z", id: "1),status.neq.(x" })],
+        ["a timestamp that is not ISO-8601", encode({ sentAt: "Mon, 19 Oct 2026 08:00:00 GMT", id: rows[0].id })],
+        ["an injected timestamp", encode({ sentAt: "2026-10-19T08:00:00.000Z,id.gt.0", id: rows[0].id })],
+        ["missing fields", encode({ id: rows[0].id })],
+    ])("rejects a cursor with %s before querying", async (_case, cursor) => {
+        await expect(emailAnalytics.getEmailDeliveryLog(startDate, endDate, { limit: 1, cursor }))
+            .rejects.toBeInstanceOf(emailAnalytics.InvalidDeliveryLogCursorError);
+        expect(or).not.toHaveBeenCalled();
+    });
+});
+
+describe("recordEmailFeedback", () => {
+    let emailAnalytics: typeof import("./email-analytics");
+    const bounce = {
+        ses_message_id: "0102018f-bounce",
+        delivery_status: "bounced",
+        feedback_detail: "Permanent/General",
+        feedback_at: new Date("2026-10-19T09:01:10.000Z"),
+    } as const;
+    const delivery = {
+        ses_message_id: "0102018f-delivery",
+        delivery_status: "delivered",
+        feedback_at: new Date("2026-10-19T09:01:02.000Z"),
+    } as const;
+
+    beforeAll(async () => {
+        emailAnalytics = await import("./email-analytics");
+    });
+
+    beforeEach(() => {
+        awaitedResults.length = 0;
+    });
+
+    it("records feedback on the row of the send", async () => {
+        awaitedResults.push({ data: [{ id: rows[0].id }], error: null });
+
+        await expect(emailAnalytics.recordEmailFeedback(bounce)).resolves.toBeUndefined();
+    });
+
+    it("throws while the row of the send does not exist, so SNS retries", async () => {
+        awaitedResults.push({ data: [], error: null });
+
+        await expect(emailAnalytics.recordEmailFeedback(bounce))
+            .rejects.toThrow("No email analytics row for SES message 0102018f-bounce");
+    });
+
+    it("keeps an earlier bounce when a delivery arrives after it", async () => {
+        awaitedResults.push({ data: [], error: null }, { count: 1, error: null });
+
+        await expect(emailAnalytics.recordEmailFeedback(delivery)).resolves.toBeUndefined();
+    });
+
+    it("throws for a delivery of a send that is not recorded", async () => {
+        awaitedResults.push({ data: [], error: null }, { count: 0, error: null });
+
+        await expect(emailAnalytics.recordEmailFeedback(delivery)).rejects.toThrow("No email analytics row");
+    });
+
+    it("throws when the update fails", async () => {
+        awaitedResults.push({ data: null, error: { message: "timeout" } });
+
+        await expect(emailAnalytics.recordEmailFeedback(bounce))
+            .rejects.toThrow("Failed to record email feedback for 0102018f-bounce: timeout");
+    });
+});
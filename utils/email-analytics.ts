@@ -13,9 +13,11 @@ const supabase = createClient(
 
 export type EmailAnalytics = {
     id?: string;
+    message_id?: string;
+    ses_message_id?: string;
     email: string;
     user_id?: string;
-    status: "sent" | "failed" | "skipped";
+    status: "sent" | "failed" | "skipped" | "suppressed";
     error_message?: string;
     followings_count: number;
     total_contents_count: number;
@@ -32,6 +34,8 @@ export async function trackEmailAnalytics(analytics: EmailAnalytics): Promise<vo
         const { error } = await supabase
             .from("email_analytics")
             .insert({
+                message_id: analytics.message_id,
+                ses_message_id: analytics.ses_message_id,
                 email: analytics.email,
                 user_id: analytics.user_id,
                 status: analytics.status,
@@ -62,6 +66,8 @@ export async function trackBatchEmailAnalytics(
             .from("email_analytics")
             .insert(
                 analyticsBatch.map((analytics) => ({
+                    message_id: analytics.message_id,
+                    ses_message_id: analytics.ses_message_id,
                     email: analytics.email,
                     user_id: analytics.user_id,
                     status: analytics.status,
@@ -85,127 +91,364 @@ export async function trackBatchEmailAnalytics(
     }
 }
 
+export type EmailFeedback = {
+    ses_message_id: string;
+    delivery_status: "delivered" | "bounced" | "complained";
+    feedback_detail?: string;
+    feedback_at: Date;
+};
+
+/**
+ * Records SES feedback against the analytics row of the sent email. A
+ * delivery notification never overwrites an earlier bounce or complaint.
+ * Throws when the row is not there yet, so SNS redelivers the notification
+ * once the send has been recorded.
+ */
+export async function recordEmailFeedback(feedback: EmailFeedback): Promise<void> {
+    const query = supabase
+        .from("email_analytics")
+        .update({
+            delivery_status: feedback.delivery_status,
+            feedback_detail: feedback.feedback_detail,
+            feedback_at: feedback.feedback_at.toISOString(),
+        })
+        .eq("ses_message_id", feedback.ses_message_id);
+
+    const { data, error } = feedback.delivery_status === "delivered"
+        ? await query.is("delivery_status", null).select("id")
+        : await query.select("id");
+
+    if (error) {
+        throw new Error(`Failed to record email feedback for ${feedback.ses_message_id}: ${error.message}`);
+    }
+
+    if (data.length > 0) {
+        return;
+    }
+
+    // A delivery matches nothing when the row already carries a bounce or
+    // a complaint, which is kept.
+    if (feedback.delivery_status === "delivered") {
+        const { count, error: countError } = await supabase
+            .from("email_analytics")
+            .select("id", { count: "exact", head: true })
+            .eq("ses_message_id", feedback.ses_message_id);
+
+        if (countError) {
+            throw new Error(`Failed to record email feedback for ${feedback.ses_message_id}: ${countError.message}`);
+        }
+
+        if (count) {
+            return;
+        }
+    }
+
+    throw new Error(`No email analytics row for SES message ${feedback.ses_message_id}`);
+}
+
+export type FrequencyBreakdown = { sent: number; failed: number; skipped: number };
+
 export type EmailAnalyticsStats = {
     total_emails_sent: number;
     total_emails_failed: number;
     total_emails_skipped: number;
+    total_emails_suppressed: number;
+    total_bounces: number;
+    total_complaints: number;
     success_rate: number;
     average_contents_per_email: number;
     average_processing_time_ms: number;
     breakdown_by_frequency: {
-        daily: { sent: number; failed: number; skipped: number };
-        weekly: { sent: number; failed: number; skipped: number };
-        monthly: { sent: number; failed: number; skipped: number };
+        daily: FrequencyBreakdown;
+        weekly: FrequencyBreakdown;
+        monthly: FrequencyBreakdown;
     };
     breakdown_by_platform: Record<string, { sent: number; failed: number }>;
+    error_groups: EmailErrorGroup[];
+    engagement: EmailEngagementStats;
+};
+
+export type EmailEngagementStats = {
+    unique_opens: number;
+    unique_clicks: number;
+    total_clicks: number;
+    open_rate: number;
+    click_through_rate: number;
+    top_clicked_creators: Array<{ creator: string; platform: string; clicks: number }>;
+    top_clicked_items: Array<{ url: string; title: string; creator: string; platform: string; clicks: number }>;
+};
+
+export type EmailErrorGroup = {
+    /** The error message with ids, email addresses and numbers masked. */
+    error_pattern: string;
+    sample_message: string;
+    occurrences: number;
+    last_seen_at: string;
+};
+
+export type TimeSeriesGranularity = "hour" | "day" | "week";
+
+export type EmailAnalyticsBucket = {
+    bucket: string;
+    sent: number;
+    failed: number;
+    skipped: number;
+    suppressed: number;
+    bounces: number;
+    complaints: number;
+};
+
+export type EmailDeliveryLogEntry = {
+    id: string;
+    message_id: string | null;
+    email: string;
+    user_id: string | null;
+    status: EmailAnalytics["status"];
+    delivery_status: EmailFeedback["delivery_status"] | null;
+    error_message: string | null;
+    frequency: EmailAnalytics["frequency"];
+    platforms: string[];
+    followings_count: number;
+    total_contents_count: number;
+    sent_at: string;
+    feedback_at: string | null;
+    timezone: string;
+    send_time: string;
+    processing_time_ms: number | null;
+    ses_message_id: string | null;
+    feedback_detail: string | null;
+};
+
+export type EmailDeliveryLogQuery = {
+    userId?: string;
+    email?: string;
+    status?: EmailAnalytics["status"];
+    limit: number;
+    cursor?: string;
+};
+
+export type EmailDeliveryLogPage = {
+    entries: EmailDeliveryLogEntry[];
+    nextCursor: string | null;
+};
+
+type EmailAnalyticsSummary = Omit<EmailAnalyticsStats, "success_rate" | "error_groups" | "engagement" | "breakdown_by_frequency"> & {
+    breakdown_by_frequency: Partial<EmailAnalyticsStats["breakdown_by_frequency"]>;
 };
 
+type EmailEngagementSummary = Omit<EmailEngagementStats, "open_rate" | "click_through_rate"> & {
+    tracked_emails: number;
+};
+
+type DeliveryLogCursor = {
+    sentAt: string;
+    id: string;
+};
+
+export class InvalidDeliveryLogCursorError extends Error {
+    constructor(message = "Invalid delivery log cursor") {
+        super(message);
+        this.name = "InvalidDeliveryLogCursorError";
+    }
+}
+
+const TOP_CLICKED_LIMIT = 10;
+const ERROR_GROUPS_LIMIT = 20;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ISO_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+const DELIVERY_LOG_COLUMNS = "id, message_id, email, user_id, status, delivery_status, error_message, frequency, platforms, followings_count, total_contents_count, sent_at, feedback_at, timezone, send_time, processing_time_ms, ses_message_id, feedback_detail";
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const percentage = (part: number, total: number) => total > 0 ? round((part / total) * 100) : 0;
+
+// The aggregations are SQL functions (see supabase/migrations), so only the
+// aggregated values leave the database, whatever the size of the period.
+function rangeParams(startDate: Date, endDate: Date, userId?: string) {
+    return {
+        p_start: startDate.toISOString(),
+        p_end: endDate.toISOString(),
+        p_user_id: userId ?? null,
+    };
+}
+
+async function getEmailEngagementStats(
+    startDate: Date,
+    endDate: Date,
+    userId?: string
+): Promise<EmailEngagementStats> {
+    const { data, error } = await supabase
+        .rpc("email_engagement_summary", { ...rangeParams(startDate, endDate, userId), p_limit: TOP_CLICKED_LIMIT });
+
+    if (error || !data) {
+        throw new Error(`Failed to aggregate email engagement: ${error?.message}`);
+    }
+
+    const { tracked_emails: trackedEmails, ...engagement } = data as EmailEngagementSummary;
+
+    return {
+        ...engagement,
+        open_rate: percentage(engagement.unique_opens, trackedEmails),
+        click_through_rate: percentage(engagement.unique_clicks, trackedEmails),
+    };
+}
+
+async function getEmailErrorGroups(
+    startDate: Date,
+    endDate: Date,
+    userId?: string
+): Promise<EmailErrorGroup[]> {
+    const { data, error } = await supabase
+        .rpc("email_analytics_error_groups", { ...rangeParams(startDate, endDate, userId), p_limit: ERROR_GROUPS_LIMIT });
+
+    if (error) {
+        throw new Error(`Failed to group email errors: ${error.message}`);
+    }
+
+    return (data || []) as EmailErrorGroup[];
+}
+
+/**
+ * Aggregates the emails sent between `startDate` and `endDate`, limited to
+ * the recipient `userId` when given. Engagement follows the same scope, as it
+ * is matched to the sent emails.
+ */
 export async function getEmailAnalyticsStats(
     startDate: Date,
-    endDate: Date
+    endDate: Date,
+    userId?: string
 ): Promise<EmailAnalyticsStats | null> {
     try {
         const { data, error } = await supabase
-            .from("email_analytics")
-            .select("*")
-            .gte("sent_at", startDate.toISOString())
-            .lte("sent_at", endDate.toISOString());
+            .rpc("email_analytics_summary", rangeParams(startDate, endDate, userId));
 
-        if (error) {
+        if (error || !data) {
             console.error("Failed to fetch email analytics stats:", error);
             return null;
         }
 
-        if (!data || data.length === 0) {
-            return {
-                total_emails_sent: 0,
-                total_emails_failed: 0,
-                total_emails_skipped: 0,
-                success_rate: 0,
-                average_contents_per_email: 0,
-                average_processing_time_ms: 0,
-                breakdown_by_frequency: {
-                    daily: { sent: 0, failed: 0, skipped: 0 },
-                    weekly: { sent: 0, failed: 0, skipped: 0 },
-                    monthly: { sent: 0, failed: 0, skipped: 0 },
-                },
-                breakdown_by_platform: {},
-            };
-        }
+        const summary = data as EmailAnalyticsSummary;
 
-        const totalSent = data.filter((d) => d.status === "sent").length;
-        const totalFailed = data.filter((d) => d.status === "failed").length;
-        const totalSkipped = data.filter((d) => d.status === "skipped").length;
-
-        const successRate = totalSent + totalFailed > 0
-            ? (totalSent / (totalSent + totalFailed)) * 100
-            : 0;
-
-        const sentEmails = data.filter((d) => d.status === "sent");
-        const averageContents = sentEmails.length > 0
-            ? sentEmails.reduce((sum, d) => sum + (d.total_contents_count || 0), 0) / sentEmails.length
-            : 0;
-
-        const emailsWithProcessingTime = data.filter((d) => d.processing_time_ms !== null);
-        const averageProcessingTime = emailsWithProcessingTime.length > 0
-            ? emailsWithProcessingTime.reduce((sum, d) => sum + (d.processing_time_ms || 0), 0) / emailsWithProcessingTime.length
-            : 0;
-
-        const breakdownByFrequency = {
-            daily: {
-                sent: data.filter((d) => d.frequency === "daily" && d.status === "sent").length,
-                failed: data.filter((d) => d.frequency === "daily" && d.status === "failed").length,
-                skipped: data.filter((d) => d.frequency === "daily" && d.status === "skipped").length,
-            },
-            weekly: {
-                sent: data.filter((d) => d.frequency === "weekly" && d.status === "sent").length,
-                failed: data.filter((d) => d.frequency === "weekly" && d.status === "failed").length,
-                skipped: data.filter((d) => d.frequency === "weekly" && d.status === "skipped").length,
-            },
-            monthly: {
-                sent: data.filter((d) => d.frequency === "monthly" && d.status === "sent").length,
-                failed: data.filter((d) => d.frequency === "monthly" && d.status === "failed").length,
-                skipped: data.filter((d) => d.frequency === "monthly" && d.status === "skipped").length,
-            },
-        };
+        const [errorGroups, engagement] = await Promise.all([
+            getEmailErrorGroups(startDate, endDate, userId),
+            getEmailEngagementStats(startDate, endDate, userId),
+        ]);
 
-        const platformSet = new Set<string>();
-        data.forEach((d) => {
-            if (d.platforms && Array.isArray(d.platforms)) {
-                d.platforms.forEach((p: string) => platformSet.add(p));
-            }
-        });
-
-        const breakdownByPlatform: Record<string, { sent: number; failed: number }> = {};
-        platformSet.forEach((platform) => {
-            breakdownByPlatform[platform] = {
-                sent: data.filter((d) =>
-                    d.platforms &&
-                    Array.isArray(d.platforms) &&
-                    d.platforms.includes(platform) &&
-                    d.status === "sent"
-                ).length,
-                failed: data.filter((d) =>
-                    d.platforms &&
-                    Array.isArray(d.platforms) &&
-                    d.platforms.includes(platform) &&
-                    d.status === "failed"
-                ).length,
-            };
-        });
+        const emptyBreakdown = (): FrequencyBreakdown => ({ sent: 0, failed: 0, skipped: 0 });
 
         return {
-            total_emails_sent: totalSent,
-            total_emails_failed: totalFailed,
-            total_emails_skipped: totalSkipped,
-            success_rate: Math.round(successRate * 100) / 100,
-            average_contents_per_email: Math.round(averageContents * 100) / 100,
-            average_processing_time_ms: Math.round(averageProcessingTime * 100) / 100,
-            breakdown_by_frequency: breakdownByFrequency,
-            breakdown_by_platform: breakdownByPlatform,
+            ...summary,
+            success_rate: percentage(summary.total_emails_sent, summary.total_emails_sent + summary.total_emails_failed),
+            average_contents_per_email: round(summary.average_contents_per_email),
+            average_processing_time_ms: round(summary.average_processing_time_ms),
+            breakdown_by_frequency: {
+                daily: summary.breakdown_by_frequency.daily || emptyBreakdown(),
+                weekly: summary.breakdown_by_frequency.weekly || emptyBreakdown(),
+                monthly: summary.breakdown_by_frequency.monthly || emptyBreakdown(),
+            },
+            error_groups: errorGroups,
+            engagement,
         };
     } catch (error) {
         console.error("Error fetching email analytics stats:", error);
         return null;
     }
 }
+
+/** Returns per-bucket counts, truncated in UTC and ordered oldest first. */
+export async function getEmailAnalyticsTimeSeries(
+    startDate: Date,
+    endDate: Date,
+    granularity: TimeSeriesGranularity,
+    userId?: string
+): Promise<EmailAnalyticsBucket[]> {
+    const { data, error } = await supabase
+        .rpc("email_analytics_timeseries", { ...rangeParams(startDate, endDate, userId), p_granularity: granularity });
+
+    if (error) {
+        throw new Error(`Failed to fetch email analytics time series: ${error.message}`);
+    }
+
+    return ((data || []) as EmailAnalyticsBucket[]).map((bucket) => ({
+        ...bucket,
+        bucket: new Date(bucket.bucket).toISOString(),
+    }));
+}
+
+function encodeDeliveryLogCursor(cursor: DeliveryLogCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeDeliveryLogCursor(value: string): DeliveryLogCursor {
+    let cursor: DeliveryLogCursor;
+    try {
+        cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf-8"));
+    } catch {
+        throw new InvalidDeliveryLogCursorError();
+    }
+
+    // Both values end up in a PostgREST filter string, so anything but the
+    // exact format written by `encodeDeliveryLogCursor` is rejected.
+    if (
+        typeof cursor?.id !== "string" ||
+        typeof cursor?.sentAt !== "string" ||
+        !UUID_PATTERN.test(cursor.id) ||
+        !ISO_TIMESTAMP_PATTERN.test(cursor.sentAt) ||
+        isNaN(new Date(cursor.sentAt).getTime())
+    ) {
+        throw new InvalidDeliveryLogCursorError();
+    }
+
+    return cursor;
+}
+
+/**
+ * Pages through the emails of a period, newest first. Keyset pagination on
+ * `(sent_at, id)` keeps pages stable while new emails are being sent.
+ */
+export async function getEmailDeliveryLog(
+    startDate: Date,
+    endDate: Date,
+    query: EmailDeliveryLogQuery
+): Promise<EmailDeliveryLogPage> {
+    let request = supabase
+        .from("email_analytics")
+        .select(DELIVERY_LOG_COLUMNS)
+        .gte("sent_at", startDate.toISOString())
+        .lte("sent_at", endDate.toISOString());
+
+    if (query.userId) {
+        request = request.eq("user_id", query.userId);
+    }
+    if (query.email) {
+        request = request.eq("email", query.email);
+    }
+    if (query.status) {
+        request = request.eq("status", query.status);
+    }
+    if (query.cursor) {
+        const { sentAt, id } = decodeDeliveryLogCursor(query.cursor);
+        request = request.or(`sent_at.lt.${sentAt},and(sent_at.eq.${sentAt},id.lt.${id})`);
+    }
+
+    // One extra row tells whether there is a next page.
+    const { data, error } = await request
+        .order("sent_at", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(query.limit + 1)
+        .overrideTypes<EmailDeliveryLogEntry[], { merge: false }>();
+
+    if (error) {
+        throw new Error(`Failed to fetch email delivery log: ${error.message}`);
+    }
+
+    const entries = (data || []).slice(0, query.limit);
+    const last = entries[entries.length - 1];
+
+    return {
+        entries,
+        nextCursor: data && data.length > query.limit && last
+            ? encodeDeliveryLogCursor({ sentAt: new Date(last.sent_at).toISOString(), id: last.id })
+            : null,
+    };
+}
@@ -0,0 +1,161 @@
+import { FollowingFetcherStrategyFactory } from "../followingFetcherStrategies/followingFetcherFactory";
+import { InMemoryJobQueue, JobContext, JobQueue, SqsJobQueue } from "./job-queue";
+import { syncFollowings } from "./following-sync";
+import { storeFollowings } from "./followings";
+import { Redis } from "@upstash/redis";
+import { randomUUID } from "crypto";
+
+const redis = new Redis({
+    url: process.env.UPSTASH_REDIS_REST_URL,
+    token: process.env.UPSTASH_REDIS_REST_TOKEN,
+});
+
+// Must match maxReceiveCount of the redrive policy in serverless.yml.
+export const MAX_FOLLOWING_JOB_ATTEMPTS = 2;
+const JOB_KEY_PREFIX = "followings:jobs:";
+const ACTIVE_JOB_KEY_PREFIX = "followings:jobs:active:";
+const JOB_TTL_SECONDS = 60 * 60;
+// Outlives every attempt of a job so duplicates attach to it instead of
+// starting a second scrape, but expires if a worker dies without cleaning up.
+const ACTIVE_JOB_TTL_SECONDS = 10 * 60;
+// A claimant writes its job right after claiming the active key, so a
+// duplicate that finds the key without a job waits this long for it.
+const ACTIVE_JOB_READ_ATTEMPTS = 5;
+const ACTIVE_JOB_READ_DELAY_MS = 100;
+
+export type FollowingJobStatus = "pending" | "running" | "completed" | "failed";
+
+export type FollowingJob = {
+    id: string;
+    platformName: string;
+    username: string;
+    status: FollowingJobStatus;
+    loadedCount: number;
+    followingsCount?: number;
+    error?: string;
+    createdAt: string;
+    updatedAt: string;
+};
+
+export type FollowingScrapeJob = {
+    jobId: string;
+    platformName: string;
+    username: string;
+};
+
+let followingJobsQueue: JobQueue<FollowingScrapeJob> | undefined;
+
+export function getFollowingJobsQueue(): JobQueue<FollowingScrapeJob> {
+    followingJobsQueue ??= process.env.FOLLOWING_JOBS_QUEUE_URL
+        ? new SqsJobQueue<FollowingScrapeJob>(process.env.FOLLOWING_JOBS_QUEUE_URL)
+        : new InMemoryJobQueue<FollowingScrapeJob>(processFollowingScrapeJob, MAX_FOLLOWING_JOB_ATTEMPTS);
+
+    return followingJobsQueue;
+}
+
+export async function getFollowingJob(jobId: string): Promise<FollowingJob | null> {
+    return redis.get<FollowingJob>(`${JOB_KEY_PREFIX}${jobId}`);
+}
+
+async function updateFollowingJob(jobId: string, update: Partial<FollowingJob>): Promise<void> {
+    const job = await getFollowingJob(jobId);
+    if (!job) {
+        return;
+    }
+
+    await redis.set<FollowingJob>(
+        `${JOB_KEY_PREFIX}${jobId}`,
+        { ...job, ...update, updatedAt: new Date().toISOString() },
+        { ex: JOB_TTL_SECONDS },
+    );
+}
+
+/**
+ * Starts a background scrape of `username`'s followings, or returns the job
+ * that is already scraping them.
+ */
+export async function startFollowingJob(platformName: string, username: string): Promise<FollowingJob> {
+    const activeJobKey = `${ACTIVE_JOB_KEY_PREFIX}${platformName}:${username}`;
+    const jobId = randomUUID();
+
+    // The active key is only ever claimed with NX: a duplicate returns the
+    // job that holds it, and claims it again only once it has expired.
+    for (let attempt = 1; ; attempt++) {
+        const claimed = await redis.set(activeJobKey, jobId, { nx: true, ex: ACTIVE_JOB_TTL_SECONDS });
+        if (claimed) {
+            break;
+        }
+
+        const activeJobId = await redis.get<string>(activeJobKey);
+        const activeJob = activeJobId ? await getFollowingJob(activeJobId) : null;
+        if (activeJob) {
+            return activeJob;
+        }
+
+        if (attempt >= ACTIVE_JOB_READ_ATTEMPTS) {
+            throw new Error(`A following job for ${username} is being started, retry shortly`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, ACTIVE_JOB_READ_DELAY_MS));
+    }
+
+    const now = new Date().toISOString();
+    const job: FollowingJob = {
+        id: jobId,
+        platformName,
+        username,
+        status: "pending",
+        loadedCount: 0,
+        createdAt: now,
+        updatedAt: now,
+    };
+
+    await redis.set<FollowingJob>(`${JOB_KEY_PREFIX}${jobId}`, job, { ex: JOB_TTL_SECONDS });
+
+    try {
+        await getFollowingJobsQueue().enqueue([{ jobId, platformName, username }]);
+    } catch (error) {
+        await redis.del(activeJobKey);
+        throw error;
+    }
+
+    return (await getFollowingJob(jobId)) || job;
+}
+
+/**
+ * Worker stage: scrapes the followings, reporting how many profiles are
+ * loaded as it scrolls, then caches the result for the followings endpoint.
+ */
+export async function processFollowingScrapeJob(job: FollowingScrapeJob, context: JobContext): Promise<void> {
+    const { jobId, platformName, username } = job;
+    const activeJobKey = `${ACTIVE_JOB_KEY_PREFIX}${platformName}:${username}`;
+
+    await updateFollowingJob(jobId, { status: "running", loadedCount: 0 });
+
+    try {
+        const strategy = FollowingFetcherStrategyFactory.getStrategy(platformName);
+        const { followings, syncedAt } = await syncFollowings(strategy, platformName, username, {
+            onProgress: (loadedCount) => updateFollowingJob(jobId, { loadedCount }),
+        });
+
+        await storeFollowings(platformName, username, followings, syncedAt);
+        await updateFollowingJob(jobId, {
+            status: "completed",
+            loadedCount: followings.length,
+            followingsCount: followings.length,
+        });
+        await redis.del(activeJobKey);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+
+        console.error(`Following job ${jobId} failed (attempt ${context.attempt}/${context.maxAttempts}):`, errorMessage);
+
+        if (context.attempt >= context.maxAttempts) {
+            await updateFollowingJob(jobId, { status: "failed", error: errorMessage });
+            await redis.del(activeJobKey);
+        } else {
+            await updateFollowingJob(jobId, { status: "pending" });
+        }
+
+        throw error;
+    }
+}
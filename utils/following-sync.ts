@@ -0,0 +1,256 @@
+import {
+    CachedFollowing,
+    FollowingFetcherStrategy,
+    FollowingUser,
+    GetFollowingsOptions,
+} from "../followingFetcherStrategies/followingFetcherFactory";
+import { createClient } from "@supabase/supabase-js";
+
+const supabase = createClient(
+    process.env.SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+        auth: {
+            autoRefreshToken: false,
+            persistSession: false,
+        },
+    }
+);
+
+// Incremental syncs stop at the first known entries and so never notice
+// unfollows; a full scrape at least this often catches those.
+const FULL_SYNC_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type SyncMode = "full" | "incremental";
+
+export type StoredFollowing = FollowingUser & {
+    first_seen_at: string;
+    last_seen_at: string;
+    removed_at: string | null;
+};
+
+export type FollowingSyncResult = {
+    mode: SyncMode;
+    followings: CachedFollowing[];
+    added: FollowingUser[];
+    removed: FollowingUser[];
+    syncedAt: Date;
+};
+
+export type FollowingsDiff = {
+    since: string;
+    added: StoredFollowing[];
+    removed: StoredFollowing[];
+};
+
+type FollowingRow = {
+    username: string;
+    full_name: string;
+    profile_url: string;
+    profile_picture_url: string | null;
+    first_seen_at: string;
+    last_seen_at: string;
+    removed_at: string | null;
+};
+
+const FOLLOWING_COLUMNS = "username, full_name, profile_url, profile_picture_url, first_seen_at, last_seen_at, removed_at";
+
+function toStoredFollowing(row: FollowingRow): StoredFollowing {
+    return {
+        username: row.username,
+        fullName: row.full_name,
+        profileUrl: row.profile_url,
+        profilePictureUrl: row.profile_picture_url || undefined,
+        first_seen_at: row.first_seen_at,
+        last_seen_at: row.last_seen_at,
+        removed_at: row.removed_at,
+    };
+}
+
+function toFollowingUser({ username, fullName, profileUrl, profilePictureUrl }: StoredFollowing): FollowingUser {
+    return { username, fullName, profileUrl, profilePictureUrl };
+}
+
+export async function getStoredFollowings(platform: string, username: string): Promise<StoredFollowing[]> {
+    const { data, error } = await supabase
+        .from("followings")
+        .select(FOLLOWING_COLUMNS)
+        .eq("platform", platform)
+        .eq("parent_username", username)
+        .is("removed_at", null)
+        .order("first_seen_at", { ascending: false })
+        .overrideTypes<FollowingRow[], { merge: false }>();
+
+    if (error) {
+        throw new Error(`Failed to fetch stored followings: ${error.message}`);
+    }
+
+    return (data || []).map(toStoredFollowing);
+}
+
+async function getLastFullSyncAt(platform: string, username: string): Promise<Date | null> {
+    const { data, error } = await supabase
+        .from("following_syncs")
+        .select("synced_at")
+        .eq("platform", platform)
+        .eq("parent_username", username)
+        .eq("mode", "full")
+        .order("synced_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to fetch last following sync: ${error.message}`);
+    }
+
+    return data ? new Date(data.synced_at) : null;
+}
+
+async function saveSync(
+    platform: string,
+    username: string,
+    fetched: FollowingUser[],
+    storedByUsername: Map<string, StoredFollowing>,
+    result: FollowingSyncResult
+): Promise<void> {
+    const syncedAt = result.syncedAt.toISOString();
+
+    // Bulk upserts null out omitted columns, so known rows carry their
+    // first-seen timestamp over. Re-followed creators that were removed
+    // earlier are not in the stored set and start over as a new follow.
+    const rows = fetched.map((following) => ({
+        platform,
+        parent_username: username,
+        username: following.username,
+        full_name: following.fullName,
+        profile_url: following.profileUrl,
+        profile_picture_url: following.profilePictureUrl || null,
+        first_seen_at: storedByUsername.get(following.username.toLowerCase())?.first_seen_at || syncedAt,
+        last_seen_at: syncedAt,
+        removed_at: null,
+    }));
+
+    if (rows.length > 0) {
+        const { error } = await supabase
+            .from("followings")
+            .upsert(rows, { onConflict: "platform,parent_username,username" });
+
+        if (error) {
+            throw new Error(`Failed to store followings: ${error.message}`);
+        }
+    }
+
+    if (result.removed.length > 0) {
+        const { error } = await supabase
+            .from("followings")
+            .update({ removed_at: syncedAt })
+            .eq("platform", platform)
+            .eq("parent_username", username)
+            .in("username", result.removed.map((following) => following.username));
+
+        if (error) {
+            throw new Error(`Failed to mark removed followings: ${error.message}`);
+        }
+    }
+
+    const { error } = await supabase
+        .from("following_syncs")
+        .insert({
+            platform,
+            parent_username: username,
+            mode: result.mode,
+            added_count: result.added.length,
+            removed_count: result.removed.length,
+            synced_at: syncedAt,
+        });
+
+    if (error) {
+        throw new Error(`Failed to record following sync: ${error.message}`);
+    }
+}
+
+/**
+ * Scrapes the followings of `username` and reconciles them with the stored
+ * history. Known users get an incremental scrape that stops at the first
+ * already-known entries, unless their last full scrape is due again.
+ */
+export async function syncFollowings(
+    strategy: FollowingFetcherStrategy,
+    platform: string,
+    username: string,
+    options: Pick<GetFollowingsOptions, "onProgress"> = {}
+): Promise<FollowingSyncResult> {
+    const [stored, lastFullSyncAt] = await Promise.all([
+        getStoredFollowings(platform, username),
+        getLastFullSyncAt(platform, username),
+    ]);
+    const mode: SyncMode = stored.length > 0 && lastFullSyncAt && Date.now() - lastFullSyncAt.getTime() < FULL_SYNC_INTERVAL_MS
+        ? "incremental"
+        : "full";
+    const storedByUsername = new Map(stored.map((following) => [following.username.toLowerCase(), following]));
+
+    const fetched = await strategy.getFollowings(username, {
+        ...options,
+        knownUsernames: mode === "incremental" ? new Set(storedByUsername.keys()) : undefined,
+    });
+    const fetchedUsernames = new Set(fetched.map((following) => following.username.toLowerCase()));
+
+    const added = fetched.filter((following) => !storedByUsername.has(following.username.toLowerCase()));
+    const unseen = stored.filter((following) => !fetchedUsernames.has(following.username.toLowerCase()));
+    // An empty full scrape more likely means the page failed to render than
+    // that every creator was unfollowed at once.
+    const removed = mode === "full" && fetched.length > 0 ? unseen.map(toFollowingUser) : [];
+
+    const syncedAt = new Date();
+    const withFirstSeen = (following: FollowingUser): CachedFollowing => ({
+        ...following,
+        firstSeenAt: storedByUsername.get(following.username.toLowerCase())?.first_seen_at || syncedAt.toISOString(),
+    });
+
+    const result: FollowingSyncResult = {
+        mode,
+        // An incremental scrape only covers the newest entries, so the older
+        // ones are carried over from the stored history.
+        followings: [...fetched, ...(mode === "full" ? [] : unseen.map(toFollowingUser))].map(withFirstSeen),
+        added,
+        removed,
+        syncedAt,
+    };
+
+    await saveSync(platform, username, fetched, storedByUsername, result);
+
+    console.log(`Synced followings of ${username} on ${platform} (${mode}): ${added.length} added, ${removed.length} removed`);
+
+    return result;
+}
+
+export async function getFollowingsDiff(platform: string, username: string, since: Date): Promise<FollowingsDiff> {
+    const sinceIso = since.toISOString();
+    const query = () => supabase
+        .from("followings")
+        .select(FOLLOWING_COLUMNS)
+        .eq("platform", platform)
+        .eq("parent_username", username);
+
+    const [addedResult, removedResult] = await Promise.all([
+        query()
+            .gte("first_seen_at", sinceIso)
+            .is("removed_at", null)
+            .order("first_seen_at", { ascending: false })
+            .overrideTypes<FollowingRow[], { merge: false }>(),
+        query()
+            .gte("removed_at", sinceIso)
+            .order("removed_at", { ascending: false })
+            .overrideTypes<FollowingRow[], { merge: false }>(),
+    ]);
+
+    if (addedResult.error || removedResult.error) {
+        throw new Error(`Failed to fetch followings diff: ${(addedResult.error || removedResult.error)!.message}`);
+    }
+
+    return {
+        since: sinceIso,
+        added: (addedResult.data || []).map(toStoredFollowing),
+        removed: (removedResult.data || []).map(toStoredFollowing),
+    };
+}
@@ -0,0 +1,232 @@
+import {
+    CachedFollowing,
+    CachedFollowingsDTO,
+} from "../followingFetcherStrategies/followingFetcherFactory";
+import { getLastPublishedDates } from "./contents";
+import { createCacheBackend, SwrCache } from "./swr-cache";
+import { Search } from "@upstash/search";
+
+const searchClient = new Search({
+    url: process.env.UPSTASH_SEARCH_REST_URL!,
+    token: process.env.UPSTASH_SEARCH_REST_TOKEN!,
+});
+
+type FollowingDocument = {
+    fullName: string;
+    username: string;
+    profileUrl: string;
+    profilePictureUrl?: string;
+    platformName: string;
+    parentUsername: string;
+};
+
+const index = searchClient.index<FollowingDocument>("followings");
+
+const FOLLOWINGS_KEY_PREFIX = "followings:";
+
+// Following lists change slowly and take up to a minute to scrape, so a list
+// older than a day is still served for a week while a job refreshes it.
+const followingsCache = new SwrCache(createCacheBackend(), {
+    softTtlSeconds: 24 * 60 * 60,
+    hardTtlSeconds: 7 * 24 * 60 * 60,
+    lockTtlSeconds: 60,
+});
+// Upstash Search has no offset, so search results are paged in memory over
+// this many best matches.
+const SEARCH_RESULT_LIMIT = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type FollowingsSort = "name" | "first_seen";
+
+export type FollowingsQuery = {
+    limit: number;
+    cursor?: string;
+    /** Search results keep their relevance order unless a sort is given. */
+    sort?: FollowingsSort;
+    order?: "asc" | "desc";
+    hasProfilePicture?: boolean;
+    /** Only creators known to have published within this many days. */
+    publishedWithinDays?: number;
+};
+
+export type FollowingsPage = {
+    followings: CachedFollowing[];
+    total: number;
+    nextCursor: string | null;
+    fetchedAt: Date;
+};
+
+type Cursor = {
+    offset: number;
+    fetchedAt: string;
+};
+
+export class InvalidCursorError extends Error {
+    constructor(message = "Invalid or expired cursor") {
+        super(message);
+        this.name = "InvalidCursorError";
+    }
+}
+
+export type CachedFollowingsLookup = CachedFollowingsDTO & {
+    /** Whether the list is past its soft TTL and should be refreshed. */
+    stale: boolean;
+};
+
+function followingsKey(platformName: string, username: string): string {
+    return `${FOLLOWINGS_KEY_PREFIX}${platformName}:${username}`;
+}
+
+export async function getCachedFollowings(
+    platformName: string,
+    username: string,
+): Promise<CachedFollowingsLookup | null> {
+    const cached = await followingsCache.read<CachedFollowingsDTO>(followingsKey(platformName, username));
+
+    return cached && { ...cached.value, stale: cached.stale };
+}
+
+/**
+ * Runs `refresh` for a stale list unless another request already did. The
+ * scrape itself runs in a job, which stores the result with `storeFollowings`.
+ */
+export async function revalidateFollowings(
+    platformName: string,
+    username: string,
+    refresh: () => Promise<void>,
+): Promise<boolean> {
+    return followingsCache.revalidate(followingsKey(platformName, username), refresh);
+}
+
+/** Caches a fresh scrape and indexes it for `searchFollowings`. */
+export async function storeFollowings(
+    platformName: string,
+    username: string,
+    followings: CachedFollowing[],
+    fetchedAt: Date,
+): Promise<void> {
+    await followingsCache.write<CachedFollowingsDTO>(
+        followingsKey(platformName, username),
+        { followings, fetchedAt },
+        fetchedAt,
+    );
+
+    const documents = followings.map((following) => ({
+        id: `${platformName}:${username}:${following.username}`,
+        content: {
+            fullName: following.fullName,
+            username: following.username,
+            profileUrl: following.profileUrl,
+            profilePictureUrl: following.profilePictureUrl || "",
+            platformName,
+            parentUsername: username,
+        },
+    }));
+
+    await index.upsert(documents);
+}
+
+export async function searchFollowings(
+    platformName: string,
+    username: string,
+    searchQuery: string,
+    hasProfilePicture?: boolean,
+): Promise<CachedFollowing[]> {
+    const results = await index.search({
+        query: searchQuery,
+        filter: {
+            AND: [
+                { platformName: { equals: platformName } },
+                { parentUsername: { equals: username } },
+                ...(hasProfilePicture ? [{ profilePictureUrl: { notEquals: "" } }] : []),
+            ],
+        },
+        limit: SEARCH_RESULT_LIMIT,
+    });
+
+    return results.map((doc) => ({
+        fullName: doc.content.fullName,
+        username: doc.content.username,
+        profileUrl: doc.content.profileUrl,
+        profilePictureUrl: doc.content.profilePictureUrl || undefined,
+    }));
+}
+
+function encodeCursor(cursor: Cursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(value: string, fetchedAt: Date): Cursor {
+    let cursor: Cursor;
+    try {
+        cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf-8"));
+    } catch {
+        throw new InvalidCursorError();
+    }
+
+    if (!Number.isInteger(cursor?.offset) || cursor.offset < 0) {
+        throw new InvalidCursorError();
+    }
+
+    // Offsets only make sense within the snapshot they were issued for.
+    if (cursor.fetchedAt !== new Date(fetchedAt).toISOString()) {
+        throw new InvalidCursorError("Cursor expired, the followings were refreshed");
+    }
+
+    return cursor;
+}
+
+function compareFollowings(sort: FollowingsSort): (a: CachedFollowing, b: CachedFollowing) => number {
+    if (sort === "first_seen") {
+        return (a, b) => (a.firstSeenAt || "").localeCompare(b.firstSeenAt || "");
+    }
+
+    return (a, b) => (a.fullName || a.username).localeCompare(b.fullName || b.username, undefined, { sensitivity: "base" });
+}
+
+/**
+ * Filters, sorts and pages a snapshot of followings, either the cached list
+ * or search results taken from it. The cursor is bound to `fetchedAt`, so
+ * paging stays consistent even though the snapshot is rebuilt on refresh.
+ */
+export async function paginateFollowings(
+    platformName: string,
+    followings: CachedFollowing[],
+    fetchedAt: Date,
+    query: FollowingsQuery,
+): Promise<FollowingsPage> {
+    const offset = query.cursor ? decodeCursor(query.cursor, fetchedAt).offset : 0;
+    let filtered = followings;
+
+    if (query.hasProfilePicture) {
+        filtered = filtered.filter((following) => Boolean(following.profilePictureUrl));
+    }
+
+    if (query.publishedWithinDays !== undefined) {
+        const since = Date.now() - query.publishedWithinDays * DAY_MS;
+        const lastPublished = await getLastPublishedDates(
+            platformName,
+            filtered.map((following) => following.username),
+        );
+        filtered = filtered.filter((following) =>
+            (lastPublished.get(following.username.toLowerCase())?.getTime() ?? 0) >= since
+        );
+    }
+
+    if (query.sort) {
+        const compare = compareFollowings(query.sort);
+        filtered = [...filtered].sort((a, b) => query.order === "desc" ? compare(b, a) : compare(a, b));
+    }
+
+    const page = filtered.slice(offset, offset + query.limit);
+    const nextOffset = offset + page.length;
+
+    return {
+        followings: page,
+        total: filtered.length,
+        nextCursor: nextOffset < filtered.length
+            ? encodeCursor({ offset: nextOffset, fetchedAt: new Date(fetchedAt).toISOString() })
+            : null,
+        fetchedAt,
+    };
+}
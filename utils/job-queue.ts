@@ -0,0 +1,117 @@
+import { SQSClient, SendMessageBatchCommand } from "@aws-sdk/client-sqs";
+import { SQSBatchResponse, SQSEvent } from "aws-lambda";
+
+const SQS_BATCH_SIZE = 10;
+
+export type JobContext = {
+    attempt: number;
+    maxAttempts: number;
+};
+
+export type JobProcessor<T> = (job: T, context: JobContext) => Promise<void>;
+
+export interface JobQueue<T> {
+    enqueue(jobs: T[]): Promise<void>;
+}
+
+export class SqsJobQueue<T> implements JobQueue<T> {
+    private static client = new SQSClient({ region: process.env.AWS_REGION });
+
+    constructor(private readonly queueUrl: string) {}
+
+    async enqueue(jobs: T[]): Promise<void> {
+        for (let i = 0; i < jobs.length; i += SQS_BATCH_SIZE) {
+            const batch = jobs.slice(i, i + SQS_BATCH_SIZE);
+            const response = await SqsJobQueue.client.send(
+                new SendMessageBatchCommand({
+                    QueueUrl: this.queueUrl,
+                    Entries: batch.map((job, index) => ({
+                        Id: String(index),
+                        MessageBody: JSON.stringify(job),
+                    })),
+                })
+            );
+
+            if (response.Failed && response.Failed.length > 0) {
+                throw new Error(
+                    `Failed to enqueue ${response.Failed.length} jobs: ${response.Failed.map((f) => f.Message).join(", ")}`
+                );
+            }
+        }
+    }
+}
+
+/**
+ * Runs jobs in-process with the same retry and dead-letter semantics as the
+ * SQS redrive policy. Used for local development and when no queue URL is set.
+ */
+export class InMemoryJobQueue<T> implements JobQueue<T> {
+    readonly deadLetters: Array<{ job: T; error: unknown }> = [];
+
+    constructor(
+        private readonly processor: JobProcessor<T>,
+        private readonly maxAttempts = 3,
+    ) {}
+
+    async enqueue(jobs: T[]): Promise<void> {
+        await Promise.all(jobs.map((job) => this.process(job)));
+    }
+
+    private async process(job: T): Promise<void> {
+        for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+            try {
+                await this.processor(job, { attempt, maxAttempts: this.maxAttempts });
+                return;
+            } catch (error) {
+                if (attempt === this.maxAttempts) {
+                    console.error("Job moved to dead-letter queue:", error);
+                    this.deadLetters.push({ job, error });
+                }
+            }
+        }
+    }
+}
+
+export async function processSqsEvent<T>(
+    event: SQSEvent,
+    processor: JobProcessor<T>,
+    maxAttempts: number,
+): Promise<SQSBatchResponse> {
+    const batchItemFailures: SQSBatchResponse["batchItemFailures"] = [];
+
+    for (const record of event.Records) {
+        try {
+            const job = JSON.parse(record.body) as T;
+            const attempt = parseInt(record.attributes.ApproximateReceiveCount, 10) || 1;
+
+            await processor(job, { attempt, maxAttempts });
+        } catch (error) {
+            console.error(`Failed to process message ${record.messageId}:`, error);
+            batchItemFailures.push({ itemIdentifier: record.messageId });
+        }
+    }
+
+    return { batchItemFailures };
+}
+
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    concurrency: number,
+    fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let nextIndex = 0;
+
+    const worker = async () => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            results[index] = await fn(items[index]);
+        }
+    };
+
+    await Promise.all(
+        Array.from({ length: Math.min(concurrency, items.length) }, worker)
+    );
+
+    return results;
+}
@@ -0,0 +1,77 @@
+import { randomBytes } from "crypto";
+
+const CRLF = "\r\n";
+const BASE64_LINE_LENGTH = 76;
+
+export type MimeMessage = {
+    from: string;
+    to: string;
+    subject: string;
+    text: string;
+    html: string;
+    headers?: Record<string, string>;
+};
+
+function encodeHeaderValue(value: string): string {
+    // RFC 2047 encoded-word for anything outside printable ASCII.
+    return /^[\x20-\x7e]*$/.test(value)
+        ? value
+        : `=?UTF-8?B?${Buffer.from(value, "utf-8").toString("base64")}?=`;
+}
+
+function encodeBody(body: string): string {
+    const encoded = Buffer.from(body, "utf-8").toString("base64");
+    const lines: string[] = [];
+
+    for (let i = 0; i < encoded.length; i += BASE64_LINE_LENGTH) {
+        lines.push(encoded.substring(i, i + BASE64_LINE_LENGTH));
+    }
+
+    return lines.join(CRLF);
+}
+
+function assertHeaderSafe(name: string, value: string): void {
+    if (/[\r\n]/.test(name) || /[\r\n]/.test(value)) {
+        throw new Error(`Header ${name} contains a line break`);
+    }
+}
+
+/**
+ * Builds a multipart/alternative message with a plain-text and an HTML part,
+ * suitable for SES `SendRawEmail`.
+ */
+export function buildMimeMessage(message: MimeMessage): Uint8Array {
+    const boundary = `----=_Part_${randomBytes(12).toString("hex")}`;
+    const headers: Record<string, string> = {
+        From: message.from,
+        To: message.to,
+        Subject: encodeHeaderValue(message.subject),
+        "MIME-Version": "1.0",
+        ...message.headers,
+        "Content-Type": `multipart/alternative; boundary="${boundary}"`,
+    };
+
+    const headerLines = Object.entries(headers).map(([name, value]) => {
+        assertHeaderSafe(name, value);
+        return `${name}: ${value}`;
+    });
+
+    const part = (contentType: string, body: string) => [
+        `--${boundary}`,
+        `Content-Type: ${contentType}; charset=UTF-8`,
+        "Content-Transfer-Encoding: base64",
+        "",
+        encodeBody(body),
+    ].join(CRLF);
+
+    const raw = [
+        ...headerLines,
+        "",
+        part("text/plain", message.text),
+        part("text/html", message.html),
+        `--${boundary}--`,
+        "",
+    ].join(CRLF);
+
+    return Buffer.from(raw, "utf-8");
+}
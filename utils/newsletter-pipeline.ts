@@ -0,0 +1,312 @@
+import {
+    ContentFetcherStrategyFactory,
+    PlatformKeys,
+} from "../contentFetcherStrategies/contentStrategyFactory";
+import { InMemoryJobQueue, JobContext, JobQueue, SqsJobQueue, mapWithConcurrency } from "./job-queue";
+import { renderNewsletterEmail, FollowingContent, EmailContentItem } from "../emails/render-email";
+import {
+    claimDelivery,
+    completeDelivery,
+    getLastDeliveredAt,
+    releaseDelivery,
+    DeliveryFrequency,
+    DeliveryKey,
+} from "./delivery-ledger";
+import { createTranslator, resolveLocale } from "../emails/i18n";
+import { buildUnsubscribeUrl, createUnsubscribeToken } from "./unsubscribe-token";
+import { buildClickUrl, buildOpenPixelUrl } from "./tracking";
+import { trackEmailAnalytics } from "./email-analytics";
+import { SESClient, SendRawEmailCommand } from "@aws-sdk/client-ses";
+import { buildMimeMessage } from "./mime";
+import { getCachedContents } from "./contents";
+import { getSinceLastDigestWindow, TimeWindow } from "./time-window";
+import { Redis } from "@upstash/redis";
+
+const ses = new SESClient({ region: process.env.AWS_REGION });
+const redis = new Redis({
+    url: process.env.UPSTASH_REDIS_REST_URL,
+    token: process.env.UPSTASH_REDIS_REST_TOKEN,
+});
+
+// Must match maxReceiveCount of the redrive policies in serverless.yml.
+export const MAX_JOB_ATTEMPTS = 3;
+const CREATOR_FETCH_CONCURRENCY = 5;
+const DIGEST_KEY_PREFIX = "digests:";
+const DIGEST_TTL_SECONDS = 24 * 60 * 60;
+
+export type NewsletterPreferencesViewDTO = {
+    newsletter_preference_id: string;
+    profile_id: string;
+    user_id: string;
+    email: string;
+    username: string;
+    timezone: string;
+    language: string;
+    platform: "medium" | "substack" | "feed" | "instagram" | "x";
+    followings: string[];
+    newsletter_enabled: boolean;
+    frequency: DeliveryFrequency;
+    send_time: string;
+    send_weekday: number | null;
+    send_day_of_month: number | null;
+};
+
+export type DigestJob = {
+    jobId: string;
+    email: string;
+    frequency: DeliveryFrequency;
+    period: string;
+    preferences: NewsletterPreferencesViewDTO[];
+};
+
+export type SendJob = DigestJob & {
+    followingsCount: number;
+};
+
+type StoredDigest = {
+    followings: FollowingContent[];
+};
+
+let digestQueue: JobQueue<DigestJob> | undefined;
+let sendQueue: JobQueue<SendJob> | undefined;
+
+export function getDigestQueue(): JobQueue<DigestJob> {
+    digestQueue ??= process.env.DIGEST_JOBS_QUEUE_URL
+        ? new SqsJobQueue<DigestJob>(process.env.DIGEST_JOBS_QUEUE_URL)
+        : new InMemoryJobQueue<DigestJob>(processDigestJob, MAX_JOB_ATTEMPTS);
+
+    return digestQueue;
+}
+
+export function getSendQueue(): JobQueue<SendJob> {
+    sendQueue ??= process.env.SEND_JOBS_QUEUE_URL
+        ? new SqsJobQueue<SendJob>(process.env.SEND_JOBS_QUEUE_URL)
+        : new InMemoryJobQueue<SendJob>(processSendJob, MAX_JOB_ATTEMPTS);
+
+    return sendQueue;
+}
+
+function getUnsubscribeHeaders(unsubscribeUrl: string): Record<string, string> {
+    return {
+        "List-Unsubscribe": `<${unsubscribeUrl}>`,
+        "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    };
+}
+
+function withClickTracking(messageId: string, followings: FollowingContent[]): FollowingContent[] {
+    return followings.map((following) => ({
+        ...following,
+        contents: following.contents.map((content) => ({
+            ...content,
+            url: buildClickUrl({
+                messageId,
+                url: content.url,
+                creator: following.username,
+                platform: following.platform,
+                title: content.title,
+            }),
+        })),
+    }));
+}
+
+async function getCreatorContents(
+    platform: string,
+    username: string,
+    window: TimeWindow,
+): Promise<EmailContentItem[]> {
+    try {
+        const platformName = platform.toUpperCase() as PlatformKeys;
+        const fetchingStrategy = ContentFetcherStrategyFactory.getStrategy(platformName);
+        // A stale cache could miss posts published since the last digest.
+        const { contents } = await getCachedContents(fetchingStrategy, platformName, username, window, {
+            allowStale: false,
+        });
+
+        return contents.map((content) => ({
+            title: content.title,
+            url: content.url,
+            description: content.description,
+            publishedAt: new Date(content.publishedAt).toISOString(),
+        }));
+    } catch (error) {
+        console.error(`Failed to fetch contents for ${username} on ${platform}:`, error);
+        return [];
+    }
+}
+
+/**
+ * Worker stage: fetches every followed creator of one subscriber and hands the
+ * digest to the sender stage. The digest covers everything published since
+ * the subscriber's previous digest of the same frequency. Creators shared by
+ * several subscribers are fetched once per cache window thanks to the Redis
+ * contents cache.
+ */
+export async function processDigestJob(job: DigestJob): Promise<void> {
+    const creators = new Map<string, { username: string; platform: NewsletterPreferencesViewDTO["platform"] }>();
+    for (const pref of job.preferences) {
+        for (const creator of pref.followings || []) {
+            const username = creator.trim();
+            if (username) {
+                creators.set(`${pref.platform}:${username.toLowerCase()}`, { username, platform: pref.platform });
+            }
+        }
+    }
+
+    const lastDeliveredAt = await getLastDeliveredAt(job.preferences[0].user_id, job.frequency);
+    const window = getSinceLastDigestWindow(lastDeliveredAt, job.frequency);
+
+    const followings = await mapWithConcurrency(
+        Array.from(creators.values()),
+        CREATOR_FETCH_CONCURRENCY,
+        async ({ username, platform }): Promise<FollowingContent> => ({
+            username,
+            platform,
+            contents: await getCreatorContents(platform, username, window),
+        })
+    );
+
+    // Digests can exceed the SQS message size limit, so the sender stage
+    // only receives a reference to the stored digest.
+    await redis.set<StoredDigest>(
+        `${DIGEST_KEY_PREFIX}${job.jobId}`,
+        { followings: followings.filter((following) => following.contents.length > 0) },
+        { ex: DIGEST_TTL_SECONDS },
+    );
+
+    await getSendQueue().enqueue([{
+        ...job,
+        followingsCount: creators.size,
+    }]);
+}
+
+/**
+ * Sender stage: claims the delivery in the ledger, then renders the stored
+ * digest and sends it through SES. A failure before SES accepted the message
+ * releases the claim so a retry can send again, and is only tracked once the
+ * final attempt has been used up. Failures after that are logged only, since
+ * a retry would send the email twice.
+ */
+export async function processSendJob(job: SendJob, context: JobContext): Promise<void> {
+    const startTime = Date.now();
+    const { email, preferences, followingsCount } = job;
+    const userPref = preferences[0];
+    const platforms = [...new Set(preferences.map((p) => p.platform))];
+    const deliveryKey: DeliveryKey = {
+        user_id: userPref.user_id,
+        frequency: job.frequency,
+        period: job.period,
+    };
+    let followings: FollowingContent[] = [];
+    let sent = false;
+
+    const claimed = await claimDelivery(deliveryKey, email);
+    if (!claimed) {
+        console.log(`Skipping ${job.frequency} newsletter for ${email}: period ${job.period} already claimed`);
+        await redis.del(`${DIGEST_KEY_PREFIX}${job.jobId}`);
+        return;
+    }
+
+    try {
+        const digest = await redis.get<StoredDigest>(`${DIGEST_KEY_PREFIX}${job.jobId}`);
+        if (!digest) {
+            throw new Error(`Digest ${job.jobId} not found`);
+        }
+        followings = digest.followings;
+
+        const locale = resolveLocale(userPref.language);
+        const timezone = userPref.timezone || "UTC";
+        const unsubscribeUrl = buildUnsubscribeUrl(await createUnsubscribeToken({
+            userId: userPref.user_id,
+            profileId: userPref.profile_id,
+            preferenceIds: preferences.map((p) => p.newsletter_preference_id),
+            language: locale,
+        }));
+        const { html, text } = await renderNewsletterEmail({
+            userEmail: email,
+            followings: withClickTracking(job.jobId, followings),
+            locale,
+            timezone,
+            unsubscribeUrl,
+            openPixelUrl: buildOpenPixelUrl(job.jobId),
+        });
+
+        const { t, plural } = createTranslator(locale, timezone);
+        const totalContents = followings.reduce((sum, f) => sum + f.contents.length, 0);
+        const subject = totalContents > 0
+            ? plural("subjectWithUpdates", totalContents)
+            : t("subject");
+
+        const command = new SendRawEmailCommand({
+            Source: process.env.SES_FROM_EMAIL!,
+            Destinations: [email],
+            ConfigurationSetName: process.env.SES_CONFIGURATION_SET || undefined,
+            RawMessage: {
+                Data: buildMimeMessage({
+                    from: process.env.SES_FROM_EMAIL!,
+                    to: email,
+                    subject,
+                    text,
+                    html,
+                    headers: getUnsubscribeHeaders(unsubscribeUrl),
+                }),
+            },
+        });
+
+        const { MessageId: sesMessageId } = await ses.send(command);
+        sent = true;
+        await completeDelivery(deliveryKey);
+
+        console.log(`Successfully sent email to ${email} with ${followings.length} of ${followingsCount} followings (${totalContents} total contents)`);
+
+        await trackEmailAnalytics({
+            email,
+            message_id: job.jobId,
+            ses_message_id: sesMessageId,
+            user_id: userPref?.user_id,
+            status: "sent",
+            followings_count: followingsCount,
+            total_contents_count: totalContents,
+            platforms,
+            frequency: userPref?.frequency || "daily",
+            timezone: userPref?.timezone || "UTC",
+            send_time: userPref?.send_time || "00:00",
+            sent_at: new Date(),
+            processing_time_ms: Date.now() - startTime,
+        });
+
+        await redis.del(`${DIGEST_KEY_PREFIX}${job.jobId}`).catch((error) => {
+            console.error(`Failed to delete digest ${job.jobId}:`, error);
+        });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+
+        if (sent) {
+            console.error(`Sent email to ${email}, but a later step failed:`, errorMessage);
+            return;
+        }
+
+        console.error(`Failed to send email to ${email} (attempt ${context.attempt}/${context.maxAttempts}):`, errorMessage);
+
+        await releaseDelivery(deliveryKey);
+
+        if (context.attempt >= context.maxAttempts) {
+            await trackEmailAnalytics({
+                email,
+                message_id: job.jobId,
+                user_id: userPref?.user_id,
+                status: "failed",
+                error_message: errorMessage,
+                followings_count: followingsCount,
+                total_contents_count: followings.reduce((sum, f) => sum + f.contents.length, 0),
+                platforms,
+                frequency: userPref?.frequency || "daily",
+                timezone: userPref?.timezone || "UTC",
+                send_time: userPref?.send_time || "00:00",
+                sent_at: new Date(),
+                processing_time_ms: Date.now() - startTime,
+            });
+        }
+
+        throw error;
+    }
+}
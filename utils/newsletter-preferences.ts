@@ -0,0 +1,197 @@
+import type { NewsletterPreferencesViewDTO } from "./newsletter-pipeline";
+import { createClient } from "@supabase/supabase-js";
+
+const supabase = createClient(
+    process.env.SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+        auth: {
+            autoRefreshToken: false,
+            persistSession: false,
+        },
+    }
+);
+
+const UNIQUE_VIOLATION = "23505";
+
+export type NewsletterPreference = {
+    id: string;
+    platform: NewsletterPreferencesViewDTO["platform"];
+    followings: string[];
+    frequency: NewsletterPreferencesViewDTO["frequency"];
+    sendTime: string;
+    weekday: number | null;
+    dayOfMonth: number | null;
+    timezone: string;
+    language: string;
+    enabled: boolean;
+};
+
+export type NewsletterPreferenceInput = Omit<NewsletterPreference, "id">;
+
+export class NewsletterPreferenceNotFoundError extends Error {
+    constructor(message = "Newsletter preference not found") {
+        super(message);
+        this.name = "NewsletterPreferenceNotFoundError";
+    }
+}
+
+export class NewsletterPreferenceConflictError extends Error {
+    constructor(message = "A newsletter preference for this platform already exists") {
+        super(message);
+        this.name = "NewsletterPreferenceConflictError";
+    }
+}
+
+function fromView(row: NewsletterPreferencesViewDTO): NewsletterPreference {
+    return {
+        id: row.newsletter_preference_id,
+        platform: row.platform,
+        followings: row.followings || [],
+        frequency: row.frequency,
+        // Postgres `time` columns come back as `HH:mm:ss`.
+        sendTime: row.send_time.slice(0, 5),
+        weekday: row.send_weekday,
+        dayOfMonth: row.send_day_of_month,
+        timezone: row.timezone,
+        language: row.language,
+        enabled: row.newsletter_enabled,
+    };
+}
+
+function toColumns(input: Partial<NewsletterPreferenceInput>) {
+    const columns = {
+        platform: input.platform,
+        followings: input.followings,
+        frequency: input.frequency,
+        send_time: input.sendTime,
+        send_weekday: input.weekday,
+        send_day_of_month: input.dayOfMonth,
+        timezone: input.timezone,
+        language: input.language,
+        newsletter_enabled: input.enabled,
+    };
+
+    // Left-out fields must not be written as nulls on partial updates.
+    return Object.fromEntries(Object.entries(columns).filter(([, value]) => value !== undefined));
+}
+
+async function getProfileId(userId: string): Promise<string> {
+    const { data, error } = await supabase
+        .from("profiles")
+        .select("id")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to fetch profile: ${error.message}`);
+    }
+    if (!data) {
+        throw new NewsletterPreferenceNotFoundError("Profile not found");
+    }
+
+    return data.id;
+}
+
+export async function listNewsletterPreferences(userId: string): Promise<NewsletterPreference[]> {
+    const { data, error } = await supabase
+        .from("newsletter_preferences_view")
+        .select("*")
+        .eq("user_id", userId)
+        .overrideTypes<NewsletterPreferencesViewDTO[], { merge: false }>();
+
+    if (error) {
+        throw new Error(`Failed to fetch newsletter preferences: ${error.message}`);
+    }
+
+    return (data || []).map(fromView);
+}
+
+export async function getNewsletterPreference(userId: string, id: string): Promise<NewsletterPreference> {
+    const { data, error } = await supabase
+        .from("newsletter_preferences_view")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("newsletter_preference_id", id)
+        .maybeSingle<NewsletterPreferencesViewDTO>();
+
+    if (error) {
+        throw new Error(`Failed to fetch newsletter preference: ${error.message}`);
+    }
+    if (!data) {
+        throw new NewsletterPreferenceNotFoundError();
+    }
+
+    return fromView(data);
+}
+
+export async function createNewsletterPreference(
+    userId: string,
+    input: NewsletterPreferenceInput,
+): Promise<NewsletterPreference> {
+    const profileId = await getProfileId(userId);
+
+    const { data, error } = await supabase
+        .from("newsletter_preferences")
+        .insert({ ...toColumns(input), profile_id: profileId })
+        .select("id")
+        .single();
+
+    if (error) {
+        if (error.code === UNIQUE_VIOLATION) {
+            throw new NewsletterPreferenceConflictError();
+        }
+        throw new Error(`Failed to create newsletter preference: ${error.message}`);
+    }
+
+    return getNewsletterPreference(userId, data.id);
+}
+
+/**
+ * Updates the given fields only. Ownership is enforced by matching the
+ * preference against the caller's profile, so foreign ids behave as missing.
+ */
+export async function updateNewsletterPreference(
+    userId: string,
+    id: string,
+    input: Partial<NewsletterPreferenceInput>,
+): Promise<NewsletterPreference> {
+    const profileId = await getProfileId(userId);
+
+    const { data, error } = await supabase
+        .from("newsletter_preferences")
+        .update(toColumns(input))
+        .eq("id", id)
+        .eq("profile_id", profileId)
+        .select("id");
+
+    if (error) {
+        if (error.code === UNIQUE_VIOLATION) {
+            throw new NewsletterPreferenceConflictError();
+        }
+        throw new Error(`Failed to update newsletter preference: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+        throw new NewsletterPreferenceNotFoundError();
+    }
+
+    return getNewsletterPreference(userId, id);
+}
+
+export async function deleteNewsletterPreference(userId: string, id: string): Promise<void> {
+    const profileId = await getProfileId(userId);
+
+    const { data, error } = await supabase
+        .from("newsletter_preferences")
+        .delete()
+        .eq("id", id)
+        .eq("profile_id", profileId)
+        .select("id");
+
+    if (error) {
+        throw new Error(`Failed to delete newsletter preference: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+        throw new NewsletterPreferenceNotFoundError();
+    }
+}
@@ -0,0 +1,170 @@
+import { describe, expect, it } from "bun:test";
+
+import {
+    getNextSendTime,
+    getPreviousSendTime,
+    NewsletterSchedule,
+    parseSendTime,
+    zonedTimeToUtc,
+} from "./schedule";
+
+const daily = (sendTime: string, timezone: string): NewsletterSchedule => ({
+    frequency: "daily",
+    sendTime,
+    timezone,
+});
+
+describe("parseSendTime", () => {
+    it("accepts HH:mm with optional seconds", () => {
+        expect(parseSendTime("07:05")).toEqual({ hour: 7, minute: 5 });
+        expect(parseSendTime("23:59:00")).toEqual({ hour: 23, minute: 59 });
+    });
+
+    it("rejects out-of-range times", () => {
+        expect(() => parseSendTime("24:00")).toThrow("Invalid send time");
+        expect(() => parseSendTime("12:60")).toThrow("Invalid send time");
+        expect(() => parseSendTime("noon")).toThrow("Invalid send time");
+    });
+});
+
+describe("zonedTimeToUtc", () => {
+    it("moves times skipped by spring-forward past the gap", () => {
+        // 02:30 does not exist in New York on 2026-03-08; it becomes 03:30 EDT.
+        expect(zonedTimeToUtc({ year: 2026, month: 3, day: 8 }, 2, 30, "America/New_York"))
+            .toEqual(new Date("2026-03-08T07:30:00Z"));
+    });
+
+    it("resolves times repeated by fall-back to their first occurrence", () => {
+        // 01:30 happens twice in New York on 2026-11-01: EDT first, then EST.
+        expect(zonedTimeToUtc({ year: 2026, month: 11, day: 1 }, 1, 30, "America/New_York"))
+            .toEqual(new Date("2026-11-01T05:30:00Z"));
+    });
+
+    it("handles timezones without DST", () => {
+        expect(zonedTimeToUtc({ year: 2026, month: 7, day: 1 }, 9, 0, "Europe/Istanbul"))
+            .toEqual(new Date("2026-07-01T06:00:00Z"));
+    });
+});
+
+describe("getNextSendTime", () => {
+    it("returns today's send time when it is still ahead", () => {
+        expect(getNextSendTime(daily("09:00", "UTC"), new Date("2026-10-19T08:59:00Z")))
+            .toEqual(new Date("2026-10-19T09:00:00Z"));
+    });
+
+    it("is strictly after the given instant", () => {
+        expect(getNextSendTime(daily("09:00", "UTC"), new Date("2026-10-19T09:00:00Z")))
+            .toEqual(new Date("2026-10-20T09:00:00Z"));
+    });
+
+    it("keeps the local time across a DST change", () => {
+        const schedule = daily("08:00", "Europe/Berlin");
+
+        expect(getNextSendTime(schedule, new Date("2026-03-28T12:00:00Z")))
+            .toEqual(new Date("2026-03-29T06:00:00Z"));
+        expect(getNextSendTime(schedule, new Date("2026-03-27T12:00:00Z")))
+            .toEqual(new Date("2026-03-28T07:00:00Z"));
+    });
+
+    it("sends once on the spring-forward day for a skipped time", () => {
+        const schedule = daily("02:30", "America/New_York");
+
+        expect(getNextSendTime(schedule, new Date("2026-03-08T00:00:00Z")))
+            .toEqual(new Date("2026-03-08T07:30:00Z"));
+        expect(getNextSendTime(schedule, new Date("2026-03-08T07:30:00Z")))
+            .toEqual(new Date("2026-03-09T06:30:00Z"));
+    });
+
+    it("sends once on the fall-back day for a repeated time", () => {
+        const schedule = daily("01:30", "America/New_York");
+
+        expect(getNextSendTime(schedule, new Date("2026-11-01T05:30:00Z")))
+            .toEqual(new Date("2026-11-02T06:30:00Z"));
+    });
+
+    it("uses the local calendar day of the timezone", () => {
+        // Already the 20th in Tokyo.
+        expect(getNextSendTime(daily("06:00", "Asia/Tokyo"), new Date("2026-10-19T22:00:00Z")))
+            .toEqual(new Date("2026-10-20T21:00:00Z"));
+    });
+
+    it("picks the configured weekday, defaulting to Monday", () => {
+        const after = new Date("2026-10-19T12:00:00Z"); // Monday
+
+        expect(getNextSendTime({ frequency: "weekly", sendTime: "09:00", timezone: "UTC", weekday: 5 }, after))
+            .toEqual(new Date("2026-10-23T09:00:00Z"));
+        expect(getNextSendTime({ frequency: "weekly", sendTime: "09:00", timezone: "UTC" }, after))
+            .toEqual(new Date("2026-10-26T09:00:00Z"));
+    });
+
+    it("crosses into a new year after ISO week 53", () => {
+        const schedule: NewsletterSchedule = {
+            frequency: "weekly",
+            sendTime: "08:00",
+            timezone: "Europe/Istanbul",
+            weekday: 1,
+        };
+
+        const lastOf2026 = getNextSendTime(schedule, new Date("2026-12-25T00:00:00Z"));
+        expect(lastOf2026).toEqual(new Date("2026-12-28T05:00:00Z"));
+        expect(getNextSendTime(schedule, lastOf2026)).toEqual(new Date("2027-01-04T05:00:00Z"));
+    });
+
+    it("clamps monthly days to the end of shorter months", () => {
+        const schedule: NewsletterSchedule = {
+            frequency: "monthly",
+            sendTime: "09:00",
+            timezone: "UTC",
+            dayOfMonth: 31,
+        };
+
+        expect(getNextSendTime(schedule, new Date("2026-02-01T00:00:00Z")))
+            .toEqual(new Date("2026-02-28T09:00:00Z"));
+        expect(getNextSendTime(schedule, new Date("2026-02-28T09:00:00Z")))
+            .toEqual(new Date("2026-03-31T09:00:00Z"));
+        expect(getNextSendTime(schedule, new Date("2028-02-01T00:00:00Z")))
+            .toEqual(new Date("2028-02-29T09:00:00Z"));
+        expect(getNextSendTime(schedule, new Date("2026-04-01T00:00:00Z")))
+            .toEqual(new Date("2026-04-30T09:00:00Z"));
+    });
+
+    it("defaults monthly schedules to the first of the month", () => {
+        expect(getNextSendTime({ frequency: "monthly", sendTime: "09:00", timezone: "UTC" }, new Date("2026-10-19T00:00:00Z")))
+            .toEqual(new Date("2026-11-01T09:00:00Z"));
+    });
+});
+
+describe("getPreviousSendTime", () => {
+    it("includes a send time equal to the given instant", () => {
+        expect(getPreviousSendTime(daily("09:00", "UTC"), new Date("2026-10-19T09:00:00Z")))
+            .toEqual(new Date("2026-10-19T09:00:00Z"));
+    });
+
+    it("finds the clamped day of the previous month", () => {
+        const schedule: NewsletterSchedule = {
+            frequency: "monthly",
+            sendTime: "09:00",
+            timezone: "UTC",
+            dayOfMonth: 31,
+        };
+
+        expect(getPreviousSendTime(schedule, new Date("2026-03-15T00:00:00Z")))
+            .toEqual(new Date("2026-02-28T09:00:00Z"));
+    });
+});
+
+describe("getDeliveryPeriod", () => {
+    it("labels weeks with their ISO year, including week 53", async () => {
+        // The ledger module creates its Supabase client on import.
+        process.env.SUPABASE_URL ??= "http://localhost:54321";
+        process.env.SUPABASE_SERVICE_ROLE_KEY ??= "test";
+        const { getDeliveryPeriod } = await import("./delivery-ledger");
+
+        expect(getDeliveryPeriod("weekly", new Date("2026-12-28T05:00:00Z"), "Europe/Istanbul")).toBe("2026-W53");
+        expect(getDeliveryPeriod("weekly", new Date("2027-01-03T12:00:00Z"), "UTC")).toBe("2026-W53");
+        expect(getDeliveryPeriod("weekly", new Date("2027-01-04T05:00:00Z"), "Europe/Istanbul")).toBe("2027-W01");
+        expect(getDeliveryPeriod("weekly", new Date("2024-12-30T12:00:00Z"), "UTC")).toBe("2025-W01");
+        // Late on the 31st in New York is already the next month in UTC.
+        expect(getDeliveryPeriod("monthly", new Date("2026-11-01T02:00:00Z"), "America/New_York")).toBe("2026-10");
+    });
+});
@@ -0,0 +1,172 @@
+export type ScheduleFrequency = "daily" | "weekly" | "monthly";
+
+export type NewsletterSchedule = {
+    frequency: ScheduleFrequency;
+    /** Local send time as `HH:mm` (a trailing `:ss` is ignored). */
+    sendTime: string;
+    /** IANA timezone the send time and calendar days are interpreted in. */
+    timezone: string;
+    /** 0 (Sunday) to 6 (Saturday), used by weekly schedules. Defaults to Monday. */
+    weekday?: number | null;
+    /**
+     * 1 to 31, used by monthly schedules. Days past the end of a month fall
+     * back to its last day, so 31 means "last day of the month". Defaults to 1.
+     */
+    dayOfMonth?: number | null;
+};
+
+type LocalDate = { year: number; month: number; day: number };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_WEEKDAY = 1;
+const DEFAULT_DAY_OF_MONTH = 1;
+// Long enough to reach the next or previous occurrence of any monthly schedule.
+const MAX_SEARCH_DAYS = 62;
+
+/** `HH:mm` on a 24-hour clock, as accepted from API clients. */
+export const SEND_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export function isValidTimezone(timezone: string): boolean {
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+export function parseSendTime(sendTime: string): { hour: number; minute: number } {
+    const match = sendTime.match(/^(\d{1,2}):(\d{2})(?::\d{2})?$/);
+    const hour = match ? parseInt(match[1], 10) : NaN;
+    const minute = match ? parseInt(match[2], 10) : NaN;
+
+    if (!(hour >= 0 && hour <= 23 && minute >= 0 && minute <= 59)) {
+        throw new Error(`Invalid send time: ${sendTime}`);
+    }
+
+    return { hour, minute };
+}
+
+function getZonedParts(date: Date, timezone: string) {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone: timezone,
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        hour: "numeric",
+        minute: "numeric",
+        second: "numeric",
+        hourCycle: "h23",
+    }).formatToParts(date);
+    const get = (type: Intl.DateTimeFormatPartTypes) =>
+        parseInt(parts.find((part) => part.type === type)!.value, 10);
+
+    return {
+        year: get("year"),
+        month: get("month"),
+        day: get("day"),
+        hour: get("hour"),
+        minute: get("minute"),
+        second: get("second"),
+    };
+}
+
+function getTimezoneOffsetMs(instant: number, timezone: string): number {
+    const parts = getZonedParts(new Date(instant), timezone);
+    const localAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+
+    return localAsUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Converts a wall-clock time in `timezone` to an instant. Times skipped by a
+ * DST jump are moved forward by the size of the jump; times repeated when
+ * clocks go back resolve to their earlier occurrence.
+ */
+export function zonedTimeToUtc(
+    date: LocalDate,
+    hour: number,
+    minute: number,
+    timezone: string
+): Date {
+    const localAsUtc = Date.UTC(date.year, date.month - 1, date.day, hour, minute);
+    // Offsets in effect half a day around the wall-clock time cover both
+    // sides of any DST transition on that day.
+    const candidates = [
+        getTimezoneOffsetMs(localAsUtc - DAY_MS / 2, timezone),
+        getTimezoneOffsetMs(localAsUtc + DAY_MS / 2, timezone),
+    ].map((offset) => ({
+        instant: localAsUtc - offset,
+        valid: getTimezoneOffsetMs(localAsUtc - offset, timezone) === offset,
+    }));
+    const valid = candidates.filter((candidate) => candidate.valid).map((candidate) => candidate.instant);
+
+    return new Date(
+        valid.length > 0
+            ? Math.min(...valid)
+            : Math.max(...candidates.map((candidate) => candidate.instant))
+    );
+}
+
+function addDays(date: LocalDate, days: number): LocalDate {
+    const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day) + days * DAY_MS);
+
+    return {
+        year: shifted.getUTCFullYear(),
+        month: shifted.getUTCMonth() + 1,
+        day: shifted.getUTCDate(),
+    };
+}
+
+function getDaysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function isScheduledDay(schedule: NewsletterSchedule, date: LocalDate): boolean {
+    if (schedule.frequency === "weekly") {
+        const weekday = new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+        return weekday === (schedule.weekday ?? DEFAULT_WEEKDAY);
+    }
+
+    if (schedule.frequency === "monthly") {
+        const dayOfMonth = schedule.dayOfMonth ?? DEFAULT_DAY_OF_MONTH;
+        return date.day === Math.min(dayOfMonth, getDaysInMonth(date.year, date.month));
+    }
+
+    return true;
+}
+
+function findSendTime(
+    schedule: NewsletterSchedule,
+    from: Date,
+    direction: 1 | -1,
+    matches: (candidate: Date) => boolean
+): Date {
+    const { hour, minute } = parseSendTime(schedule.sendTime);
+    const start = getZonedParts(from, schedule.timezone);
+    // Start one day before/after the local date so DST shifts around
+    // midnight can never skip the first candidate.
+    let date = addDays(start, -direction);
+
+    for (let i = 0; i <= MAX_SEARCH_DAYS; i++) {
+        if (isScheduledDay(schedule, date)) {
+            const candidate = zonedTimeToUtc(date, hour, minute, schedule.timezone);
+            if (matches(candidate)) {
+                return candidate;
+            }
+        }
+        date = addDays(date, direction);
+    }
+
+    throw new Error(`No send time found for schedule ${JSON.stringify(schedule)}`);
+}
+
+/** Returns the first send time strictly after `after`. */
+export function getNextSendTime(schedule: NewsletterSchedule, after: Date = new Date()): Date {
+    return findSendTime(schedule, after, 1, (candidate) => candidate > after);
+}
+
+/** Returns the latest send time at or before `atOrBefore`. */
+export function getPreviousSendTime(schedule: NewsletterSchedule, atOrBefore: Date = new Date()): Date {
+    return findSendTime(schedule, atOrBefore, -1, (candidate) => candidate <= atOrBefore);
+}
@@ -0,0 +1,77 @@
+import { beforeAll, beforeEach, describe, expect, it, mock } from "bun:test";
+
+const upsert = mock(async (_row: unknown, _options: unknown) => ({ error: null as { message: string } | null }));
+const selectIn = mock(async (_column: string, _values: string[]) => ({
+    data: [{ email: "gone.user@example.com" }],
+    error: null as { message: string } | null,
+}));
+
+mock.module("@supabase/supabase-js", () => ({
+    createClient: () => ({
+        from: () => ({
+            upsert,
+            select: () => ({ in: selectIn }),
+        }),
+    }),
+}));
+
+describe("suppressions", () => {
+    let suppressions: typeof import("./suppressions");
+
+    beforeAll(async () => {
+        suppressions = await import("./suppressions");
+    });
+
+    beforeEach(() => {
+        upsert.mockClear();
+        selectIn.mockClear();
+    });
+
+    it("stores suppressed addresses lower-cased, one row per address", async () => {
+        await suppressions.suppressEmail({
+            email: " Gone.User@Example.com ",
+            reason: "bounce",
+            detail: "smtp; 550 5.1.1 user unknown",
+            ses_message_id: "0102018f-bounce-permanent",
+            suppressed_at: new Date("2026-10-19T09:01:10.000Z"),
+        });
+
+        expect(upsert.mock.calls).toEqual([[
+            {
+                email: "gone.user@example.com",
+                reason: "bounce",
+                detail: "smtp; 550 5.1.1 user unknown",
+                ses_message_id: "0102018f-bounce-permanent",
+                suppressed_at: "2026-10-19T09:01:10.000Z",
+            },
+            { onConflict: "email" },
+        ]]);
+    });
+
+    it("throws when the suppression cannot be stored", async () => {
+        upsert.mockImplementationOnce(async () => ({ error: { message: "timeout" } }));
+
+        await expect(suppressions.suppressEmail({
+            email: "a@example.com",
+            reason: "complaint",
+            suppressed_at: new Date(),
+        })).rejects.toThrow("Failed to suppress a@example.com: timeout");
+    });
+
+    it("looks up normalized, de-duplicated addresses", async () => {
+        const suppressed = await suppressions.getSuppressedEmails([
+            "Gone.User@Example.com",
+            "gone.user@example.com",
+            "reader@example.com",
+        ]);
+
+        expect(selectIn.mock.calls).toEqual([["email", ["gone.user@example.com", "reader@example.com"]]]);
+        expect(suppressions.isSuppressed(suppressed, "GONE.USER@example.com")).toBe(true);
+        expect(suppressions.isSuppressed(suppressed, "reader@example.com")).toBe(false);
+    });
+
+    it("skips the lookup for an empty batch", async () => {
+        expect((await suppressions.getSuppressedEmails([])).size).toBe(0);
+        expect(selectIn).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,68 @@
+import { createClient } from "@supabase/supabase-js";
+
+const supabase = createClient(
+    process.env.SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+        auth: {
+            autoRefreshToken: false,
+            persistSession: false,
+        },
+    }
+);
+
+export type EmailSuppression = {
+    email: string;
+    reason: "bounce" | "complaint";
+    detail?: string;
+    ses_message_id?: string;
+    suppressed_at: Date;
+};
+
+function normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+}
+
+export async function suppressEmail(suppression: EmailSuppression): Promise<void> {
+    const { error } = await supabase
+        .from("email_suppressions")
+        .upsert({
+            email: normalizeEmail(suppression.email),
+            reason: suppression.reason,
+            detail: suppression.detail,
+            ses_message_id: suppression.ses_message_id,
+            suppressed_at: suppression.suppressed_at.toISOString(),
+        }, { onConflict: "email" });
+
+    if (error) {
+        throw new Error(`Failed to suppress ${suppression.email}: ${error.message}`);
+    }
+}
+
+/** Returns the subset of `emails` that must not be mailed, lower-cased. */
+export async function getSuppressedEmails(emails: string[]): Promise<Set<string>> {
+    const suppressed = new Set<string>();
+
+    if (emails.length === 0) {
+        return suppressed;
+    }
+
+    const { data, error } = await supabase
+        .from("email_suppressions")
+        .select("email")
+        .in("email", [...new Set(emails.map(normalizeEmail))]);
+
+    if (error) {
+        throw new Error(`Failed to fetch email suppressions: ${error.message}`);
+    }
+
+    for (const { email } of data || []) {
+        suppressed.add(email);
+    }
+
+    return suppressed;
+}
+
+export function isSuppressed(suppressed: Set<string>, email: string): boolean {
+    return suppressed.has(normalizeEmail(email));
+}
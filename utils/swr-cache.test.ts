@@ -0,0 +1,167 @@
+import { describe, expect, it, mock } from "bun:test";
+
+import { CacheLoadTimeoutError, InMemoryCacheBackend, SwrCache } from "./swr-cache";
+
+// A soft TTL of zero makes every written value stale right away.
+function createCache(softTtlSeconds = 0, backend = new InMemoryCacheBackend()): SwrCache {
+    return new SwrCache(backend, {
+        softTtlSeconds,
+        hardTtlSeconds: 60,
+        lockTtlSeconds: 30,
+        waitTimeoutMs: 2000,
+    });
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function slowLoad<T>(value: T, ms = 50) {
+    return mock(async () => {
+        await sleep(ms);
+        return value;
+    });
+}
+
+describe("SwrCache.getOrLoad", () => {
+    it("loads and stores a value on a miss", async () => {
+        const cache = createCache(60);
+        const load = mock(async () => "fresh");
+
+        expect(await cache.getOrLoad("key", load)).toMatchObject({ value: "fresh", stale: false });
+        expect(await cache.getOrLoad("key", load)).toMatchObject({ value: "fresh", stale: false });
+        expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it("loads once for concurrent misses and lets the others wait for it", async () => {
+        const cache = createCache(60);
+        const load = slowLoad("fresh", 300);
+
+        const lookups = await Promise.all(Array.from({ length: 5 }, () => cache.getOrLoad("key", load)));
+
+        expect(load).toHaveBeenCalledTimes(1);
+        expect(lookups.map((lookup) => lookup.value)).toEqual(Array(5).fill("fresh"));
+    });
+
+    it("gives up waiting instead of loading without the lock", async () => {
+        const cache = createCache(60);
+        const load = slowLoad("fresh", 1000);
+
+        const first = cache.getOrLoad("key", load);
+        await sleep(10);
+        await expect(cache.getOrLoad("key", load, { waitTimeoutMs: 300 })).rejects.toBeInstanceOf(
+            CacheLoadTimeoutError
+        );
+
+        expect((await first).value).toBe("fresh");
+        expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it("takes over when the load holding the lock fails", async () => {
+        const cache = createCache(60);
+        const failing = mock(async () => {
+            await sleep(50);
+            throw new Error("scrape failed");
+        });
+
+        const first = cache.getOrLoad("key", failing);
+        await sleep(10);
+        const second = cache.getOrLoad("key", async () => "fresh");
+
+        await expect(first).rejects.toThrow("scrape failed");
+        expect((await second).value).toBe("fresh");
+    });
+
+    it("refreshes a stale value once for concurrent readers without a scheduler", async () => {
+        const cache = createCache();
+        await cache.write("key", "old");
+        const load = slowLoad("fresh");
+
+        const lookups = await Promise.all(Array.from({ length: 5 }, () => cache.getOrLoad("key", load)));
+
+        expect(load).toHaveBeenCalledTimes(1);
+        expect(lookups.filter((lookup) => lookup.value === "fresh")).toHaveLength(1);
+        expect(lookups.filter((lookup) => lookup.value === "old")).toHaveLength(4);
+        expect((await cache.read("key"))?.value).toBe("fresh");
+    });
+
+    it("waits for a fresh value when stale ones are not allowed", async () => {
+        const cache = createCache();
+        await cache.write("key", "old");
+        const scheduleRefresh = mock(async () => {});
+
+        const lookup = await cache.getOrLoad("key", async () => "fresh", { allowStale: false, scheduleRefresh });
+
+        expect(lookup.value).toBe("fresh");
+        expect(scheduleRefresh).not.toHaveBeenCalled();
+    });
+});
+
+describe("SwrCache refresh hand-off", () => {
+    it("schedules one refresh for concurrent and later stale reads", async () => {
+        const cache = createCache();
+        await cache.write("key", "old");
+        const load = mock(async () => "fresh");
+        const scheduleRefresh = mock(async (_lockOwner: string) => {});
+
+        const lookups = await Promise.all(
+            Array.from({ length: 5 }, () => cache.getOrLoad("key", load, { scheduleRefresh }))
+        );
+        // The lock is kept after scheduling, so reads until the job ran do
+        // not schedule again.
+        await cache.getOrLoad("key", load, { scheduleRefresh });
+
+        expect(lookups.map((lookup) => lookup.value)).toEqual(Array(5).fill("old"));
+        expect(scheduleRefresh).toHaveBeenCalledTimes(1);
+        expect(load).not.toHaveBeenCalled();
+    });
+
+    it("runs the scheduled refresh once and releases the lock afterwards", async () => {
+        const cache = createCache();
+        await cache.write("key", "old");
+        const scheduleRefresh = mock(async (_lockOwner: string) => {});
+        await cache.getOrLoad("key", async () => "unused", { scheduleRefresh });
+        const lockOwner = scheduleRefresh.mock.calls[0][0];
+        const load = slowLoad("fresh");
+
+        // A redelivered job runs next to the first one.
+        const results = await Promise.all([
+            cache.completeRefresh("key", lockOwner, load),
+            cache.completeRefresh("key", lockOwner, load),
+        ]);
+
+        expect(results.sort()).toEqual([false, true]);
+        expect(load).toHaveBeenCalledTimes(1);
+        expect((await cache.read("key"))?.value).toBe("fresh");
+        expect(await cache.revalidate("key", async () => {})).toBe(true);
+    });
+
+    it("skips a scheduled refresh whose lock was taken by someone else", async () => {
+        const cache = createCache();
+        await cache.write("key", "old");
+        const load = mock(async () => "fresh");
+        let finishRevalidation = () => {};
+        const revalidation = cache.revalidate("key", () => new Promise<void>((resolve) => {
+            finishRevalidation = resolve;
+        }));
+
+        expect(await cache.completeRefresh("key", "expired-owner", load)).toBe(false);
+        expect(load).not.toHaveBeenCalled();
+
+        finishRevalidation();
+        await revalidation;
+    });
+
+    it("releases the lock when scheduling fails and still returns the stale value", async () => {
+        const cache = createCache();
+        await cache.write("key", "old");
+        const failing = mock(async () => {
+            throw new Error("queue unavailable");
+        });
+        const scheduleRefresh = mock(async (_lockOwner: string) => {});
+
+        const lookup = await cache.getOrLoad("key", async () => "fresh", { scheduleRefresh: failing });
+        await cache.getOrLoad("key", async () => "fresh", { scheduleRefresh });
+
+        expect(lookup.value).toBe("old");
+        expect(scheduleRefresh).toHaveBeenCalledTimes(1);
+    });
+});
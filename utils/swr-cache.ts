@@ -0,0 +1,339 @@
+import { Redis } from "@upstash/redis";
+import { randomUUID } from "crypto";
+
+export type CacheEntry<T> = {
+    value: T;
+    /** When the value was loaded, as an ISO timestamp. */
+    storedAt: string;
+};
+
+export interface CacheBackend {
+    get<T>(key: string): Promise<CacheEntry<T> | null>;
+    set<T>(key: string, entry: CacheEntry<T>, ttlSeconds: number): Promise<void>;
+    /** Takes the lock for `owner` unless someone holds it; it expires on its own. */
+    acquireLock(key: string, owner: string, ttlSeconds: number): Promise<boolean>;
+    /**
+     * Hands the lock from `owner` over to `newOwner`, or takes it for
+     * `newOwner` if it has expired meanwhile. Fails if someone else holds it.
+     */
+    transferLock(key: string, owner: string, newOwner: string, ttlSeconds: number): Promise<boolean>;
+    /** Releases the lock if `owner` still holds it. */
+    releaseLock(key: string, owner: string): Promise<void>;
+}
+
+export type SwrCacheOptions = {
+    /** Age after which a value is served stale and refreshed. */
+    softTtlSeconds: number;
+    /** Age after which a value is gone and has to be loaded while waiting. */
+    hardTtlSeconds: number;
+    /**
+     * Upper bound for a load, including the time a handed-off refresh waits
+     * in its queue; the lock is released after it at the latest.
+     */
+    lockTtlSeconds: number;
+    /**
+     * How long a caller waits for another caller's load before giving up.
+     * Defaults to the lock TTL.
+     */
+    waitTimeoutMs?: number;
+};
+
+export type CacheLookup<T> = {
+    value: T;
+    storedAt: Date;
+    stale: boolean;
+};
+
+export type GetOrLoadOptions = {
+    /**
+     * Digests must not miss recent items, so they can opt out of stale
+     * values and wait for a refresh instead.
+     */
+    allowStale?: boolean;
+    /**
+     * Hands the refresh of a stale value off, e.g. to a job queue, so the
+     * stale value can be returned right away. The lock stays with
+     * `lockOwner` until the job passes it to `completeRefresh`. Without
+     * it, the refresh is awaited.
+     */
+    scheduleRefresh?: (lockOwner: string) => Promise<void>;
+    /** Overrides `SwrCacheOptions.waitTimeoutMs`, e.g. for request paths. */
+    waitTimeoutMs?: number;
+};
+
+/** Thrown when another caller's load did not finish within the wait timeout. */
+export class CacheLoadTimeoutError extends Error {
+    constructor(key: string) {
+        super(`Timed out waiting for cache key ${key} to be loaded`);
+        this.name = "CacheLoadTimeoutError";
+    }
+}
+
+const LOCK_SUFFIX = ":lock";
+const WAIT_POLL_INTERVAL_MS = 250;
+
+// Compare-and-set scripts, so a lock is only ever changed by its owner.
+const TRANSFER_LOCK_SCRIPT = `
+local owner = redis.call("GET", KEYS[1])
+if owner == ARGV[1] or not owner then
+    redis.call("SET", KEYS[1], ARGV[2], "EX", ARGV[3])
+    return 1
+end
+return 0`;
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+    return redis.call("DEL", KEYS[1])
+end
+return 0`;
+
+export class UpstashCacheBackend implements CacheBackend {
+    constructor(private readonly redis: Redis) {}
+
+    async get<T>(key: string): Promise<CacheEntry<T> | null> {
+        return this.redis.get<CacheEntry<T>>(key);
+    }
+
+    async set<T>(key: string, entry: CacheEntry<T>, ttlSeconds: number): Promise<void> {
+        await this.redis.set<CacheEntry<T>>(key, entry, { ex: ttlSeconds });
+    }
+
+    async acquireLock(key: string, owner: string, ttlSeconds: number): Promise<boolean> {
+        return (await this.redis.set(key, owner, { nx: true, ex: ttlSeconds })) === "OK";
+    }
+
+    async transferLock(key: string, owner: string, newOwner: string, ttlSeconds: number): Promise<boolean> {
+        return (await this.redis.eval(TRANSFER_LOCK_SCRIPT, [key], [owner, newOwner, ttlSeconds])) === 1;
+    }
+
+    async releaseLock(key: string, owner: string): Promise<void> {
+        await this.redis.eval(RELEASE_LOCK_SCRIPT, [key], [owner]);
+    }
+}
+
+/** Keeps entries in process memory. Used for local development and tests. */
+export class InMemoryCacheBackend implements CacheBackend {
+    private readonly entries = new Map<string, { entry: CacheEntry<unknown>; expiresAt: number }>();
+    private readonly locks = new Map<string, { owner: string; expiresAt: number }>();
+
+    async get<T>(key: string): Promise<CacheEntry<T> | null> {
+        const stored = this.entries.get(key);
+        if (!stored || stored.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return null;
+        }
+
+        return stored.entry as CacheEntry<T>;
+    }
+
+    async set<T>(key: string, entry: CacheEntry<T>, ttlSeconds: number): Promise<void> {
+        this.entries.set(key, { entry, expiresAt: Date.now() + ttlSeconds * 1000 });
+    }
+
+    async acquireLock(key: string, owner: string, ttlSeconds: number): Promise<boolean> {
+        if (this.getLockOwner(key) !== null) {
+            return false;
+        }
+
+        this.locks.set(key, { owner, expiresAt: Date.now() + ttlSeconds * 1000 });
+        return true;
+    }
+
+    async transferLock(key: string, owner: string, newOwner: string, ttlSeconds: number): Promise<boolean> {
+        const currentOwner = this.getLockOwner(key);
+        if (currentOwner !== null && currentOwner !== owner) {
+            return false;
+        }
+
+        this.locks.set(key, { owner: newOwner, expiresAt: Date.now() + ttlSeconds * 1000 });
+        return true;
+    }
+
+    async releaseLock(key: string, owner: string): Promise<void> {
+        if (this.getLockOwner(key) === owner) {
+            this.locks.delete(key);
+        }
+    }
+
+    private getLockOwner(key: string): string | null {
+        const lock = this.locks.get(key);
+        return lock && lock.expiresAt > Date.now() ? lock.owner : null;
+    }
+}
+
+export function createCacheBackend(): CacheBackend {
+    if (!process.env.UPSTASH_REDIS_REST_URL) {
+        return new InMemoryCacheBackend();
+    }
+
+    return new UpstashCacheBackend(new Redis({
+        url: process.env.UPSTASH_REDIS_REST_URL,
+        token: process.env.UPSTASH_REDIS_REST_TOKEN,
+    }));
+}
+
+function isCacheEntry<T>(value: unknown): value is CacheEntry<T> {
+    // Values written before the cache stored envelopes count as misses.
+    return Boolean(value && typeof value === "object" && "storedAt" in value && "value" in value);
+}
+
+/**
+ * Stale-while-revalidate cache. Values younger than the soft TTL are served
+ * as is; older ones are served while one caller, holding a per-key lock,
+ * refreshes them or hands the refresh off. Concurrent misses wait for the
+ * caller holding the lock instead of each starting their own load.
+ */
+export class SwrCache {
+    constructor(
+        private readonly backend: CacheBackend,
+        private readonly options: SwrCacheOptions,
+    ) {}
+
+    async read<T>(key: string): Promise<CacheLookup<T> | null> {
+        const entry = await this.backend.get<T>(key);
+        if (!isCacheEntry<T>(entry)) {
+            return null;
+        }
+
+        const storedAt = new Date(entry.storedAt);
+
+        return {
+            value: entry.value,
+            storedAt,
+            stale: Date.now() - storedAt.getTime() >= this.options.softTtlSeconds * 1000,
+        };
+    }
+
+    async write<T>(key: string, value: T, storedAt: Date = new Date()): Promise<void> {
+        await this.backend.set<T>(
+            key,
+            { value, storedAt: storedAt.toISOString() },
+            this.options.hardTtlSeconds,
+        );
+    }
+
+    /**
+     * Runs `refresh` unless another caller is already refreshing `key`, and
+     * returns whether it ran. `refresh` is expected to write the new value,
+     * either itself or by handing the work off, e.g. to a job queue.
+     */
+    async revalidate(key: string, refresh: () => Promise<void>): Promise<boolean> {
+        const lockKey = `${key}${LOCK_SUFFIX}`;
+        const owner = randomUUID();
+        if (!(await this.backend.acquireLock(lockKey, owner, this.options.lockTtlSeconds))) {
+            return false;
+        }
+
+        try {
+            await refresh();
+        } finally {
+            await this.backend.releaseLock(lockKey, owner);
+        }
+
+        return true;
+    }
+
+    /**
+     * Runs a refresh handed off by `scheduleRefresh`, taking over the lock
+     * from `lockOwner`. Returns false without loading when someone else holds
+     * the lock, e.g. a redelivered job or a newer refresh.
+     */
+    async completeRefresh<T>(key: string, lockOwner: string, load: () => Promise<T>): Promise<boolean> {
+        const lockKey = `${key}${LOCK_SUFFIX}`;
+        const owner = randomUUID();
+        if (!(await this.backend.transferLock(lockKey, lockOwner, owner, this.options.lockTtlSeconds))) {
+            return false;
+        }
+
+        try {
+            const cached = await this.read<T>(key);
+            if (!cached || cached.stale) {
+                await this.write(key, await load());
+            }
+        } finally {
+            await this.backend.releaseLock(lockKey, owner);
+        }
+
+        return true;
+    }
+
+    /**
+     * Returns the cached value, loading it on a miss. A stale value is
+     * returned once its refresh has been handed to `scheduleRefresh`; without
+     * one, the refresh is awaited and the fresh value returned. Nothing is
+     * left running after the call, since Lambda freezes the container once
+     * the handler returns. Callers that find the lock taken wait for its
+     * holder and never load without it, so a slow load is never repeated in
+     * parallel; a `CacheLoadTimeoutError` is thrown when waiting times out.
+     */
+    async getOrLoad<T>(
+        key: string,
+        load: () => Promise<T>,
+        options: GetOrLoadOptions = {},
+    ): Promise<CacheLookup<T>> {
+        const cached = await this.read<T>(key);
+        let loaded: CacheLookup<T> | null = null;
+        const loadAndWrite = async () => {
+            const value = await load();
+            const storedAt = new Date();
+
+            await this.write(key, value, storedAt);
+            loaded = { value, storedAt, stale: false };
+        };
+
+        if (cached && !cached.stale) {
+            return cached;
+        }
+
+        if (cached && options.allowStale !== false) {
+            try {
+                if (options.scheduleRefresh) {
+                    await this.handOffRefresh(key, options.scheduleRefresh);
+                } else {
+                    await this.revalidate(key, loadAndWrite);
+                }
+            } catch (error) {
+                console.error(`Failed to revalidate cache key ${key}:`, error);
+            }
+            return loaded || cached;
+        }
+
+        const waitTimeoutMs = options.waitTimeoutMs ?? this.options.waitTimeoutMs ?? this.options.lockTtlSeconds * 1000;
+        const deadline = Date.now() + waitTimeoutMs;
+
+        // Retrying the lock while waiting takes over once a failed load
+        // released it without writing a value.
+        while (!(await this.revalidate(key, loadAndWrite))) {
+            if (Date.now() >= deadline) {
+                throw new CacheLoadTimeoutError(key);
+            }
+
+            await new Promise((resolve) => setTimeout(resolve, WAIT_POLL_INTERVAL_MS));
+
+            const fresh = await this.read<T>(key);
+            if (fresh && (!cached || fresh.storedAt > cached.storedAt)) {
+                return fresh;
+            }
+        }
+
+        return loaded!;
+    }
+
+    /**
+     * Takes the lock and keeps it after `schedule` returns, so stale reads
+     * do not schedule the same refresh again before the job has written it.
+     */
+    private async handOffRefresh(key: string, schedule: (lockOwner: string) => Promise<void>): Promise<void> {
+        const lockKey = `${key}${LOCK_SUFFIX}`;
+        const owner = randomUUID();
+        if (!(await this.backend.acquireLock(lockKey, owner, this.options.lockTtlSeconds))) {
+            return;
+        }
+
+        try {
+            await schedule(owner);
+        } catch (error) {
+            await this.backend.releaseLock(lockKey, owner);
+            throw error;
+        }
+    }
+}
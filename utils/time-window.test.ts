@@ -0,0 +1,122 @@
+import { describe, expect, it } from "bun:test";
+
+import {
+    createTimeWindow,
+    getCoveringWindowName,
+    getSinceLastDigestWindow,
+    isNamedWindow,
+    isWithinWindow,
+    NAMED_WINDOWS,
+    resolveNamedWindow,
+} from "./time-window";
+
+const now = new Date("2026-10-19T15:30:00Z");
+
+describe("resolveNamedWindow", () => {
+    it.each([
+        ["today", "2026-10-18T15:30:00Z", "2026-10-19T15:30:00Z"],
+        ["yesterday", "2026-10-18T00:00:00Z", "2026-10-19T00:00:00Z"],
+        ["last_week", "2026-10-12T15:30:00Z", "2026-10-19T15:30:00Z"],
+        ["last_month", "2026-09-19T15:30:00Z", "2026-10-19T15:30:00Z"],
+        ["last_year", "2025-10-19T15:30:00Z", "2026-10-19T15:30:00Z"],
+        ["all_time", "1970-01-01T00:00:00Z", "2026-10-19T15:30:00Z"],
+    ] as const)("pins the bounds of %s", (name, from, to) => {
+        expect(resolveNamedWindow(name, now)).toEqual({ from: new Date(from), to: new Date(to) });
+    });
+
+    it("covers exactly the previous UTC calendar day for yesterday", () => {
+        const justAfterMidnight = resolveNamedWindow("yesterday", new Date("2026-10-19T00:00:01Z"));
+        const justBeforeMidnight = resolveNamedWindow("yesterday", new Date("2026-10-19T23:59:59Z"));
+        const expected = { from: new Date("2026-10-18T00:00:00Z"), to: new Date("2026-10-19T00:00:00Z") };
+
+        expect(justAfterMidnight).toEqual(expected);
+        expect(justBeforeMidnight).toEqual(expected);
+        expect(resolveNamedWindow("yesterday", new Date("2026-03-01T08:00:00Z")))
+            .toEqual({ from: new Date("2026-02-28T00:00:00Z"), to: new Date("2026-03-01T00:00:00Z") });
+    });
+
+    it("resolves per call instead of once", () => {
+        const later = new Date(now.getTime() + 60 * 60 * 1000);
+
+        expect(resolveNamedWindow("today", later).to).toEqual(later);
+    });
+
+    it("rejects unknown names", () => {
+        expect(() => resolveNamedWindow("all" as never, now)).toThrow("Unknown time window: all");
+    });
+});
+
+describe("isNamedWindow", () => {
+    it("accepts every named window and nothing else", () => {
+        expect(NAMED_WINDOWS.every(isNamedWindow)).toBe(true);
+        expect(isNamedWindow("all")).toBe(false);
+    });
+});
+
+describe("createTimeWindow", () => {
+    it("defaults `to` to now", () => {
+        expect(createTimeWindow("2026-10-01T00:00:00+03:00", undefined, now)).toEqual({
+            from: new Date("2026-09-30T21:00:00Z"),
+            to: now,
+        });
+    });
+
+    it("rejects invalid and empty windows", () => {
+        expect(() => createTimeWindow("yesterday", undefined, now)).toThrow("Invalid time window bounds");
+        expect(() => createTimeWindow(now, now)).toThrow("Time window must start before it ends");
+        expect(() => createTimeWindow("2026-10-20T00:00:00Z", "2026-10-19T00:00:00Z")).toThrow(
+            "Time window must start before it ends",
+        );
+    });
+});
+
+describe("getSinceLastDigestWindow", () => {
+    it("starts at the previous digest", () => {
+        const lastDigestAt = new Date("2026-10-15T08:00:00Z");
+
+        expect(getSinceLastDigestWindow(lastDigestAt, "weekly", now)).toEqual({ from: lastDigestAt, to: now });
+    });
+
+    it("falls back to one period for a first digest", () => {
+        expect(getSinceLastDigestWindow(null, "daily", now)).toEqual({
+            from: new Date("2026-10-18T15:30:00Z"),
+            to: now,
+        });
+        expect(getSinceLastDigestWindow(null, "monthly", now).from).toEqual(new Date("2026-09-19T15:30:00Z"));
+    });
+
+    it("caps the look-back after a long pause and ignores future digests", () => {
+        expect(getSinceLastDigestWindow(new Date("2026-01-01T00:00:00Z"), "weekly", now).from)
+            .toEqual(new Date("2026-10-12T15:30:00Z"));
+        expect(getSinceLastDigestWindow(new Date("2026-10-20T00:00:00Z"), "daily", now).from)
+            .toEqual(new Date("2026-10-18T15:30:00Z"));
+    });
+});
+
+describe("getCoveringWindowName", () => {
+    it("picks the narrowest rolling window that contains the window", () => {
+        expect(getCoveringWindowName(resolveNamedWindow("today", now), now)).toBe("today");
+        expect(getCoveringWindowName(createTimeWindow("2026-10-15T00:00:00Z", undefined, now), now)).toBe("last_week");
+        expect(getCoveringWindowName(createTimeWindow("2026-10-01T00:00:00Z", undefined, now), now)).toBe("last_month");
+        expect(getCoveringWindowName(createTimeWindow("2020-01-01T00:00:00Z", undefined, now), now)).toBe("all_time");
+    });
+
+    it("never uses yesterday, whose bounds move at midnight", () => {
+        expect(getCoveringWindowName(resolveNamedWindow("yesterday", now), now)).toBe("last_week");
+    });
+});
+
+describe("isWithinWindow", () => {
+    const window = resolveNamedWindow("yesterday", now);
+
+    it("is half-open", () => {
+        expect(isWithinWindow("2026-10-18T00:00:00Z", window)).toBe(true);
+        expect(isWithinWindow("2026-10-18T23:59:59.999Z", window)).toBe(true);
+        expect(isWithinWindow("2026-10-19T00:00:00Z", window)).toBe(false);
+        expect(isWithinWindow("2026-10-17T23:59:59.999Z", window)).toBe(false);
+    });
+
+    it("rejects unparseable dates", () => {
+        expect(isWithinWindow("not a date", window)).toBe(false);
+    });
+});
@@ -0,0 +1,116 @@
+import { SinceDate } from "../contentFetcherStrategies/contentStrategyFactory";
+import { DeliveryFrequency } from "./delivery-ledger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Half-open publication window: `from <= publishedAt < to`. */
+export type TimeWindow = {
+    from: Date;
+    to: Date;
+};
+
+type NamedWindowResolver = (now: Date) => TimeWindow;
+
+const lookBack = (span: number): NamedWindowResolver => (now) => ({
+    from: Number.isFinite(span) ? new Date(now.getTime() - span) : new Date(0),
+    to: now,
+});
+
+function startOfUtcDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+// `yesterday` is the previous calendar day in UTC; the others are rolling
+// look-backs from the moment they are resolved, ordered from the narrowest
+// to the widest.
+const NAMED_WINDOW_RESOLVERS: Array<[SinceDate, NamedWindowResolver]> = [
+    ["today", lookBack(DAY_MS)],
+    ["yesterday", (now) => {
+        const startOfToday = startOfUtcDay(now);
+        return { from: new Date(startOfToday.getTime() - DAY_MS), to: startOfToday };
+    }],
+    ["last_week", lookBack(7 * DAY_MS)],
+    ["last_month", lookBack(30 * DAY_MS)],
+    ["last_year", lookBack(365 * DAY_MS)],
+    ["all_time", lookBack(Number.POSITIVE_INFINITY)],
+];
+
+export const NAMED_WINDOWS = NAMED_WINDOW_RESOLVERS.map(([name]) => name);
+
+// A calendar window moves at midnight, so a fetch cached under its name could
+// be served for the wrong day. Only rolling windows are used as cache keys.
+const COVERING_WINDOWS = NAMED_WINDOWS.filter((name) => name !== "yesterday");
+
+// Used for a subscriber's first digest, and as the upper bound of the
+// look-back so a long pause does not produce a digest of the whole archive.
+const DIGEST_FALLBACK_SPANS: Record<DeliveryFrequency, number> = {
+    daily: DAY_MS,
+    weekly: 7 * DAY_MS,
+    monthly: 30 * DAY_MS,
+};
+
+export function isNamedWindow(value: string): value is SinceDate {
+    return NAMED_WINDOWS.includes(value as SinceDate);
+}
+
+/**
+ * Resolves a named window relative to `now`. Resolving per call, rather than
+ * once at module load, keeps warm Lambdas from reusing stale windows.
+ */
+export function resolveNamedWindow(name: SinceDate, now: Date = new Date()): TimeWindow {
+    const resolve = NAMED_WINDOW_RESOLVERS.find(([windowName]) => windowName === name)?.[1];
+    if (!resolve) {
+        throw new Error(`Unknown time window: ${name}`);
+    }
+
+    return resolve(now);
+}
+
+/** Builds a window from explicit ISO timestamps; `to` defaults to `now`. */
+export function createTimeWindow(from: string | Date, to?: string | Date, now: Date = new Date()): TimeWindow {
+    const window = {
+        from: new Date(from),
+        to: to ? new Date(to) : now,
+    };
+
+    if (isNaN(window.from.getTime()) || isNaN(window.to.getTime())) {
+        throw new Error("Invalid time window bounds");
+    }
+    if (window.from >= window.to) {
+        throw new Error("Time window must start before it ends");
+    }
+
+    return window;
+}
+
+/**
+ * Window for a newsletter digest: everything published since the last digest
+ * of the same frequency was sent, capped at one frequency period.
+ */
+export function getSinceLastDigestWindow(
+    lastDigestAt: Date | null,
+    frequency: DeliveryFrequency,
+    now: Date = new Date()
+): TimeWindow {
+    const earliest = new Date(now.getTime() - DIGEST_FALLBACK_SPANS[frequency]);
+
+    return {
+        from: lastDigestAt && lastDigestAt > earliest && lastDigestAt < now ? lastDigestAt : earliest,
+        to: now,
+    };
+}
+
+/**
+ * Returns the narrowest rolling named window that, resolved at `now`,
+ * contains `window`. Caches are keyed by named windows so arbitrary windows
+ * can share one fetch and filter it locally.
+ */
+export function getCoveringWindowName(window: TimeWindow, now: Date = new Date()): SinceDate {
+    return COVERING_WINDOWS.find((name) => resolveNamedWindow(name, now).from <= window.from) || "all_time";
+}
+
+export function isWithinWindow(date: Date | string, window: TimeWindow): boolean {
+    const time = new Date(date).getTime();
+
+    return !isNaN(time) && time >= window.from.getTime() && time < window.to.getTime();
+}
@@ -0,0 +1,120 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { createClient } from "@supabase/supabase-js";
+
+const supabase = createClient(
+    process.env.SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+        auth: {
+            autoRefreshToken: false,
+            persistSession: false,
+        },
+    }
+);
+
+const SIGNATURE_LENGTH = 22;
+
+export type OpenTrackingData = {
+    messageId: string;
+};
+
+export type ClickTrackingData = {
+    messageId: string;
+    url: string;
+    creator: string;
+    platform: string;
+    title?: string;
+};
+
+export type EmailEvent = {
+    message_id: string;
+    type: "open" | "click";
+    url?: string;
+    creator?: string;
+    platform?: string;
+    title?: string;
+    user_agent?: string;
+    occurred_at: Date;
+};
+
+function getSecret(): string {
+    const secret = process.env.TRACKING_SECRET;
+    if (!secret) {
+        throw new Error("TRACKING_SECRET is not set");
+    }
+
+    return secret;
+}
+
+function sign(payload: string): string {
+    return createHmac("sha256", getSecret())
+        .update(payload)
+        .digest("base64url")
+        .substring(0, SIGNATURE_LENGTH);
+}
+
+/** Encodes `data` as `<payload>.<signature>` so it can travel in a URL. */
+export function signTrackingData(data: OpenTrackingData | ClickTrackingData): string {
+    const payload = Buffer.from(JSON.stringify(data)).toString("base64url");
+
+    return `${payload}.${sign(payload)}`;
+}
+
+export function verifyTrackingData<T extends OpenTrackingData>(token: string): T | null {
+    const [payload, signature] = token.split(".");
+    if (!payload || !signature) {
+        return null;
+    }
+
+    const expected = Buffer.from(sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        return null;
+    }
+
+    try {
+        const data = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8")) as T;
+        return typeof data.messageId === "string" ? data : null;
+    } catch {
+        return null;
+    }
+}
+
+function buildTrackingUrl(path: string, token: string): string {
+    const baseUrl = (process.env.BASE_URL || "").replace(/\/+$/, "");
+    const url = new URL(`${baseUrl}${path}`);
+    url.searchParams.set("d", token);
+
+    return url.toString();
+}
+
+export function buildOpenPixelUrl(messageId: string): string {
+    return buildTrackingUrl("/track/open", signTrackingData({ messageId }));
+}
+
+export function buildClickUrl(data: ClickTrackingData): string {
+    return buildTrackingUrl("/track/click", signTrackingData(data));
+}
+
+export async function recordEmailEvent(event: EmailEvent): Promise<void> {
+    try {
+        const { error } = await supabase
+            .from("email_events")
+            .insert({
+                message_id: event.message_id,
+                type: event.type,
+                url: event.url,
+                creator: event.creator,
+                platform: event.platform,
+                title: event.title,
+                user_agent: event.user_agent,
+                occurred_at: event.occurred_at.toISOString(),
+            });
+
+        if (error) {
+            console.error("Failed to record email event:", error);
+        }
+    } catch (error) {
+        console.error("Error recording email event:", error);
+    }
+}
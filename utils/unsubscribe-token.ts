@@ -0,0 +1,69 @@
+import { SignJWT, jwtVerify } from "jose";
+
+const ISSUER = "ulak:newsletter";
+const AUDIENCE = "ulak:unsubscribe";
+const TOKEN_TTL = "60d";
+
+export type UnsubscribeClaims = {
+    userId: string;
+    profileId: string;
+    preferenceIds: string[];
+    language?: string;
+};
+
+function getSecret(): Uint8Array {
+    const secret = process.env.UNSUBSCRIBE_TOKEN_SECRET;
+    if (!secret) {
+        throw new Error("UNSUBSCRIBE_TOKEN_SECRET is not set");
+    }
+
+    return new TextEncoder().encode(secret);
+}
+
+export async function createUnsubscribeToken(claims: UnsubscribeClaims): Promise<string> {
+    return new SignJWT({
+        prf: claims.profileId,
+        pids: claims.preferenceIds,
+        lng: claims.language,
+    })
+        .setProtectedHeader({ alg: "HS256" })
+        .setSubject(claims.userId)
+        .setIssuer(ISSUER)
+        .setAudience(AUDIENCE)
+        .setIssuedAt()
+        .setExpirationTime(TOKEN_TTL)
+        .sign(getSecret());
+}
+
+/** Returns the token's claims, or null when it is invalid or expired. */
+export async function verifyUnsubscribeToken(token: string): Promise<UnsubscribeClaims | null> {
+    try {
+        const { payload } = await jwtVerify(token, getSecret(), {
+            issuer: ISSUER,
+            audience: AUDIENCE,
+            algorithms: ["HS256"],
+        });
+
+        if (!payload.sub || typeof payload.prf !== "string" || !Array.isArray(payload.pids)) {
+            return null;
+        }
+
+        return {
+            userId: payload.sub,
+            profileId: payload.prf,
+            preferenceIds: payload.pids.filter((id): id is string => typeof id === "string"),
+            language: typeof payload.lng === "string" ? payload.lng : undefined,
+        };
+    } catch (error) {
+        console.error("Invalid unsubscribe token:", error);
+        return null;
+    }
+}
+
+export function buildUnsubscribeUrl(token: string): string {
+    const baseUrl = (process.env.BASE_URL || "").replace(/\/+$/, "");
+    const url = new URL(`${baseUrl}/unsubscribe`);
+    url.searchParams.set("token", token);
+
+    return url.toString();
+}